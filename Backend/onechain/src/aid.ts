@@ -1,17 +1,32 @@
 // src/aid.ts
 import { prepareWitnessArgs, getClient } from "./signify.js";
-import { WITNESS_EIDS } from "./config.js";
+import { policyCandidates, applyPolicy, type WitnessPolicy } from "./witness-pool.js";
 import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { putAid, addRotation, appendAudit, type RotationInfo } from "./store.js";
+import { trackOperation } from "./operations.js";
+import { currentTenant, inTenant, withTenant, type TenantContext } from "./tenants.js";
 
 export type CreateAidOpts = {
   transferable?: boolean;
   toad?: number;     
   logPrefix?: string; 
+  wait?: boolean;     // wait for witness receipts (default true; false when delegated)
+  delpre?: string;    // delegator prefix -> delegated inception (dip)
+  witnesses?: WitnessPolicy; // min count / preferred witnesses / toad for this AID
+};
+
+export type RotateAidOpts = {
+  adds?: string[];    // witness EIDs to add
+  cuts?: string[];    // witness EIDs to remove
+  toad?: number;      // new threshold (default: current, clamped to the new pool)
+  wait?: boolean;     // wait for witness receipts (default true)
 };
 
 export function extractPrefix(r: any): string | null {
   return (
     r?.icp?.i ??
+    r?.serder?.sad?.i ??
     r?.prefix ??
     r?.pre ??
     r?.aid ??
@@ -20,7 +35,8 @@ export function extractPrefix(r: any): string | null {
   );
 }
 
-export async function getAid(name: string): Promise<any | null> {
+export async function getAid(name: string, tenant: TenantContext = currentTenant()): Promise<any | null> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => getAid(name, tenant));
   const client = getClient();
   try {
     const r = await client.identifiers().get(name);
@@ -35,12 +51,21 @@ export async function getAid(name: string): Promise<any | null> {
 
 export async function createAid(
   name = "qvi",
-  opts: CreateAidOpts = {}
+  opts: CreateAidOpts = {},
+  tenant: TenantContext = currentTenant()
 ): Promise<any> {
-  const desiredToad = opts.toad ?? 2;
-  const { wits, toad: t } = await prepareWitnessArgs(desiredToad, WITNESS_EIDS, {
+  if (!inTenant(tenant)) return withTenant(tenant, () => createAid(name, opts, tenant));
+  const policy = opts.witnesses ?? {};
+  const desiredToad = policy.toad ?? opts.toad ?? 2;
+  const need = Math.max(desiredToad, policy.min ?? 0);
+  const { wits: available, toad: clamped } = await prepareWitnessArgs(need, policyCandidates(policy), {
     logPrefix: opts.logPrefix ?? "aid.wits",
   });
+  const wits = applyPolicy(available, policy, need);
+  if (policy.min !== undefined && wits.length < policy.min) {
+    throw new ApiError("WITNESS_UNAVAILABLE", `witness policy needs ${policy.min} witnesses, ${wits.length} available`, { available: wits });
+  }
+  const t = Math.min(desiredToad, clamped, wits.length);
   const client = getClient();
 
   const cfg = {
@@ -48,40 +73,132 @@ export async function createAid(
     transferable: opts.transferable ?? true,
     toad: t,
     wits,
+    ...(opts.delpre ? { delpre: opts.delpre } : {}),
   };
 
-  logger.info("[aid.create] -> %j", { name, toad: t, wits: wits.length });
+  logger.info("[aid.create] -> %j", { name, toad: t, wits: wits.length, delpre: opts.delpre });
 
   const res = await client.identifiers().create(name, cfg);
 
   const pre = extractPrefix(res);
-  if (pre) logger.info("[aid.create] OK %s %s", name, pre);
-  else logger.warn("[aid.create] no prefix in response for %s", name);
+  if (pre) {
+    logger.info("[aid.create] OK %s %s", name, pre);
+    await putAid({ name, prefix: pre, transferable: cfg.transferable });
+  } else {
+    logger.warn("[aid.create] no prefix in response for %s", name);
+  }
 
-  return res;
+  // a delegated inception only completes after the delegator anchors it
+  const operation = await trackOperation(await res?.op?.(), opts.delpre ? "aid.delegate" : "aid.create", {
+    wait: opts.wait ?? !opts.delpre,
+    meta: { name, prefix: pre, ...(opts.delpre ? { delpre: opts.delpre } : {}) },
+  });
+
+  const state = (await getAid(name)) ?? { name, prefix: pre };
+  return { ...state, operation };
 }
 
 export async function getOrCreateAid(
   name: string,
-  opts: CreateAidOpts = {}
+  opts: CreateAidOpts = {},
+  tenant: TenantContext = currentTenant()
 ): Promise<any> {
-  const existing = await getAid(name);
+  const existing = await getAid(name, tenant);
   if (existing) return existing;
-  return createAid(name, opts);
+  return createAid(name, opts, tenant);
 }
 
-export async function listAids(): Promise<any[]> {
+export async function listAids(tenant: TenantContext = currentTenant()): Promise<any[]> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => listAids(tenant));
   const client = getClient();
   try {
-    const list = await client.identifiers().list();
+    const r = await client.identifiers().list();
+    // newer KERIA wraps the page: { aids, start, end, total }
+    const list = Array.isArray(r) ? r : r?.aids;
     if (Array.isArray(list)) {
       logger.info("[aid.list] %d entries", list.length);
       return list;
     }
-    logger.debug("[aid.list] non-array response type=%s", typeof list);
+    logger.debug("[aid.list] non-array response type=%s", typeof r);
     return [];
   } catch (e: any) {
     logger.warn("[aid.list] %s", e?.message ?? String(e));
     return [];
   }
-}
\ No newline at end of file
+}
+// Pool members that witness selection probed and did not find stable; selection has to
+// confirm all of them, not just `toad`, or the rest would count as dead unprobed
+async function unavailableWitnesses(pool: string[]): Promise<string[]> {
+  try {
+    const { wits } = await prepareWitnessArgs(pool.length, pool, { logPrefix: "aid.rotate.wits" });
+    return pool.filter((w) => !wits.includes(w));
+  } catch (e: any) {
+    const missing = e instanceof ApiError && e.code === "WITNESS_UNAVAILABLE" ? (e.detail as any)?.missing : undefined;
+    if (!Array.isArray(missing)) throw e;
+    return pool.filter((w) => missing.includes(w));
+  }
+}
+
+/**
+ * Rotates a transferable AID. Every witness of the resulting pool (kept and
+ * added) must pass witness selection (prepareWitnessArgs) first; the
+ * resulting key state is recorded in the store.
+ * Returns null when the AID does not exist.
+ */
+export async function rotateAid(name: string, opts: RotateAidOpts = {}, tenant: TenantContext = currentTenant()): Promise<any> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => rotateAid(name, opts, tenant));
+  const current = await getAid(name);
+  if (!current) return null;
+
+  const st = current?.state ?? {};
+  if (current?.transferable === false || (Array.isArray(st.n) && st.n.length === 0)) {
+    throw new ApiError("AID_NOT_TRANSFERABLE", `AID ${name} is non-transferable and cannot be rotated`);
+  }
+
+  const had: string[] = Array.isArray(st.b) ? st.b : [];
+  const adds = Array.from(new Set(opts.adds ?? [])).filter((w) => !had.includes(w));
+  const cuts = Array.from(new Set(opts.cuts ?? [])).filter((w) => had.includes(w));
+  const pool = had.filter((w) => !cuts.includes(w)).concat(adds);
+  const toad = opts.toad ?? Math.min(parseInt(String(st.bt ?? "0"), 16), pool.length);
+  if (toad > pool.length) {
+    throw new ApiError("BAD_REQUEST", `toad ${toad} exceeds witness count ${pool.length}`);
+  }
+
+  // every witness of the resulting pool must be stable: kept witnesses may have died since inception
+  if (pool.length) {
+    const dead = await unavailableWitnesses(pool);
+    if (dead.length) {
+      throw new ApiError("WITNESS_UNAVAILABLE", "witnesses not reachable; cut or replace them", {
+        dead,
+        adds: dead.filter((w) => adds.includes(w)),
+      });
+    }
+  }
+
+  const client = getClient();
+  logger.info("[aid.rotate] -> %j", { name, adds: adds.length, cuts: cuts.length, toad });
+  const res = await client.identifiers().rotate(name, { adds, cuts, toad });
+
+  const operation = await trackOperation(await res?.op?.(), "aid.rotate", {
+    wait: opts.wait ?? true,
+    meta: { name },
+  });
+
+  const after = await getAid(name);
+  const ks = after?.state ?? {};
+  const rotation: RotationInfo = {
+    name,
+    prefix: extractPrefix(after) ?? ks.i,
+    sn: parseInt(String(ks.s ?? "0"), 16),
+    keys: ks.k ?? [],
+    next: ks.n ?? [],
+    wits: ks.b ?? pool,
+    toad: parseInt(String(ks.bt ?? toad.toString(16)), 16),
+    at: new Date().toISOString(),
+  };
+  await addRotation(rotation);
+  await appendAudit({ action: "aid.rotate", target: rotation.prefix, detail: { name, sn: rotation.sn, adds, cuts, toad } });
+
+  logger.info("[aid.rotate] OK %s sn=%d", name, rotation.sn);
+  return { rotation, operation };
+}
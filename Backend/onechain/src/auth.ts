@@ -0,0 +1,211 @@
+// src/auth.ts
+import { AsyncLocalStorage } from "node:async_hooks";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type http from "node:http";
+import { logger, redact } from "./logger.js";
+import {
+  AUTH_MODE,
+  AUTH_KEYS_FILE,
+  AUTH_BOOTSTRAP_KEY_FILE,
+  AUTH_JWT_SECRET,
+  AUTH_JWT_ISSUER,
+  AUTH_JWT_AUDIENCE,
+} from "./config.js";
+
+// admin > issuer > reader
+export const ROLES = ["reader", "issuer", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Principal = {
+  id: string;
+  roles: Role[];
+  tenant?: string;          // restricts the principal to one tenant
+  via: "key" | "basic" | "jwt" | "anonymous";
+};
+
+// Keys file entry; `keyHash` is "sha256:<hex>" so plaintext keys need not sit on disk
+type KeyEntry = {
+  id: string;
+  key?: string;
+  keyHash?: string;
+  user?: string;
+  password?: string;
+  roles: Role[];
+  tenant?: string;
+};
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+const scope = new AsyncLocalStorage<Principal>();
+let entries: KeyEntry[] | null = null;
+
+function sha256(s: string): Buffer {
+  return createHash("sha256").update(s, "utf8").digest();
+}
+
+// constant-time on equal-length digests, whatever the input lengths
+function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(sha256(a), sha256(b));
+}
+
+function hashMatches(value: string, keyHash: string): boolean {
+  const hex = keyHash.replace(/^sha256:/, "");
+  if (!/^[0-9a-f]{64}$/i.test(hex)) return false;
+  return timingSafeEqual(sha256(value), Buffer.from(hex, "hex"));
+}
+
+function validRoles(roles: unknown): Role[] {
+  return (Array.isArray(roles) ? roles : []).filter((r): r is Role => ROLES.includes(r));
+}
+
+function loadKeys(): KeyEntry[] {
+  if (entries) return entries;
+  entries = [];
+  if (!existsSync(AUTH_KEYS_FILE)) {
+    logger.warn("[auth] no keys file at %s", AUTH_KEYS_FILE);
+    return entries;
+  }
+  try {
+    const doc = JSON.parse(readFileSync(AUTH_KEYS_FILE, "utf8"));
+    for (const e of Array.isArray(doc?.keys) ? doc.keys : []) {
+      const roles = validRoles(e?.roles);
+      if (!e?.id || !roles.length || !(e.key || e.keyHash || (e.user && e.password))) {
+        logger.warn("[auth] skip invalid key entry %s", e?.id ?? "(no id)");
+        continue;
+      }
+      if (e.key) redact(e.key);
+      if (e.password) redact(e.password);
+      entries.push({ ...e, roles });
+    }
+    logger.info("[auth] %d principals from %s", entries.length, AUTH_KEYS_FILE);
+  } catch (e: any) {
+    logger.error("[auth] keys file %s unreadable: %s", AUTH_KEYS_FILE, e?.message ?? String(e));
+  }
+  return entries;
+}
+
+/**
+ * First boot: with auth required and no keys file, writes one holding a
+ * single admin key. Only its hash goes to AUTH_KEYS_FILE; the key itself is
+ * written to AUTH_BOOTSTRAP_KEY_FILE for the operator to pick up.
+ */
+export function bootstrapKeys() {
+  if (AUTH_MODE === "off" || existsSync(AUTH_KEYS_FILE)) return;
+  const key = randomBytes(32).toString("base64url");
+  mkdirSync(dirname(AUTH_BOOTSTRAP_KEY_FILE), { recursive: true });
+  writeFileSync(AUTH_BOOTSTRAP_KEY_FILE, `${key}\n`, { mode: 0o600 });
+  const doc = { keys: [{ id: "bootstrap-admin", keyHash: `sha256:${sha256(key).toString("hex")}`, roles: ["admin"] }] };
+  mkdirSync(dirname(AUTH_KEYS_FILE), { recursive: true });
+  writeFileSync(AUTH_KEYS_FILE, `${JSON.stringify(doc, null, 2)}\n`, { mode: 0o600 });
+  entries = null;
+  logger.warn("[auth] no keys file: created %s with an admin key, see %s", AUTH_KEYS_FILE, AUTH_BOOTSTRAP_KEY_FILE);
+}
+
+function fromEntry(e: KeyEntry, via: Principal["via"]): Principal {
+  return { id: e.id, roles: e.roles, ...(e.tenant ? { tenant: e.tenant } : {}), via };
+}
+
+function b64urlJson(part: string): any {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+}
+
+function verifyJwt(token: string): Principal | null {
+  if (!AUTH_JWT_SECRET) return null;
+  const [h, p, sig] = token.split(".");
+  if (!h || !p || !sig) return null;
+
+  let header: any;
+  let claims: any;
+  try {
+    header = b64urlJson(h);
+    claims = b64urlJson(p);
+  } catch {
+    return null;
+  }
+  if (header?.alg !== "HS256") return null;
+
+  const expected = createHmac("sha256", AUTH_JWT_SECRET).update(`${h}.${p}`).digest("base64url");
+  if (!safeEqual(sig, expected)) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === "number" && claims.exp < now) return null;
+  if (typeof claims.nbf === "number" && claims.nbf > now) return null;
+  if (AUTH_JWT_ISSUER && claims.iss !== AUTH_JWT_ISSUER) return null;
+  const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (AUTH_JWT_AUDIENCE && !aud.includes(AUTH_JWT_AUDIENCE)) return null;
+
+  const roles = validRoles(claims.roles);
+  if (!claims.sub || !roles.length) return null;
+  return { id: String(claims.sub), roles, ...(claims.tenant ? { tenant: String(claims.tenant) } : {}), via: "jwt" };
+}
+
+/**
+ * Principal behind the Authorization header: API key or JWT as Bearer, or
+ * Basic user/password. Throws 401 when auth is required and nothing matches.
+ */
+export function authenticate(req: http.IncomingMessage): Principal {
+  if (AUTH_MODE === "off") return { id: "anonymous", roles: ["admin"], via: "anonymous" };
+
+  const m = /^(\S+)\s+(.+)$/.exec(String(req.headers.authorization ?? "").trim());
+  if (!m) throw new AuthError(401, "missing credentials");
+  const scheme = m[1].toLowerCase();
+  const cred = m[2].trim();
+
+  const keys = loadKeys();
+  if (scheme === "bearer") {
+    // check every entry so timing does not reveal which one matched
+    let hit: KeyEntry | null = null;
+    for (const e of keys) {
+      const ok = e.key ? safeEqual(cred, e.key) : e.keyHash ? hashMatches(cred, e.keyHash) : false;
+      if (ok && !hit) hit = e;
+    }
+    if (hit) return fromEntry(hit, "key");
+    const jwt = cred.split(".").length === 3 ? verifyJwt(cred) : null;
+    if (jwt) return jwt;
+  } else if (scheme === "basic") {
+    const raw = Buffer.from(cred, "base64").toString("utf8");
+    const i = raw.indexOf(":");
+    const user = i >= 0 ? raw.slice(0, i) : raw;
+    const pass = i >= 0 ? raw.slice(i + 1) : "";
+    let hit: KeyEntry | null = null;
+    for (const e of keys) {
+      if (!e.user || !e.password) continue;
+      const ok = safeEqual(user, e.user) && safeEqual(pass, e.password);
+      if (ok && !hit) hit = e;
+    }
+    if (hit) return fromEntry(hit, "basic");
+  }
+  throw new AuthError(401, "invalid credentials");
+}
+
+export function hasRole(p: Principal, role: Role): boolean {
+  const need = ROLES.indexOf(role);
+  return p.roles.some((r) => ROLES.indexOf(r) >= need);
+}
+
+/** Throws 403 when the principal is restricted to another tenant; `tenant` need not exist. */
+export function authorizeTenant(p: Principal, tenant: string) {
+  if (p.tenant && p.tenant !== tenant) throw new AuthError(403, `principal ${p.id} is not allowed on tenant ${tenant}`);
+}
+
+/** Throws 403 unless the principal holds `role` (or higher) for `tenant`. */
+export function authorize(p: Principal, role: Role, tenant: string) {
+  authorizeTenant(p, tenant);
+  if (!hasRole(p, role)) throw new AuthError(403, `requires ${role} role`);
+}
+
+export function withPrincipal<T>(p: Principal, fn: () => T): T {
+  return scope.run(p, fn);
+}
+
+/** Authenticated caller of the current request, if any (recorded with issuance and audit). */
+export function currentPrincipal(): Principal | null {
+  return scope.getStore() ?? null;
+}
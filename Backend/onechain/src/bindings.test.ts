@@ -0,0 +1,39 @@
+// src/bindings.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { normalizeAddress, verifyEthSignature } from "./bindings.js";
+
+const MESSAGE = "onechain address binding\naddress: 0x0\naid: EXYZ\nnonce: n\nissued: i\nexpires: e";
+
+test("an EIP-191 signature from the bound address verifies", async () => {
+  const wallet = Wallet.createRandom();
+  const signature = await wallet.signMessage(MESSAGE);
+  assert.doesNotThrow(() => verifyEthSignature(normalizeAddress(wallet.address), MESSAGE, signature));
+});
+
+test("a signature from another address is rejected with the recovered address", async () => {
+  const bound = Wallet.createRandom();
+  const other = Wallet.createRandom();
+  const signature = await other.signMessage(MESSAGE);
+  assert.throws(
+    () => verifyEthSignature(normalizeAddress(bound.address), MESSAGE, signature),
+    (e: any) => e.code === "INVALID_SIGNATURE" && e.detail?.recovered === other.address.toLowerCase()
+  );
+});
+
+test("a signature over another message does not verify", async () => {
+  const wallet = Wallet.createRandom();
+  const signature = await wallet.signMessage(MESSAGE.replace("nonce: n", "nonce: m"));
+  assert.throws(() => verifyEthSignature(normalizeAddress(wallet.address), MESSAGE, signature), /not from the bound address/);
+});
+
+test("a malformed signature is rejected", () => {
+  const address = normalizeAddress(Wallet.createRandom().address);
+  assert.throws(() => verifyEthSignature(address, MESSAGE, "0x1234"), /malformed Ethereum signature/);
+});
+
+test("addresses are normalized to lower case and checked for shape", () => {
+  assert.equal(normalizeAddress("0xABCDEF0123456789abcdef0123456789ABCDEF01"), "0xabcdef0123456789abcdef0123456789abcdef01");
+  assert.throws(() => normalizeAddress("0x1234"), /not an Ethereum address/);
+});
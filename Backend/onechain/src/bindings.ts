@@ -0,0 +1,152 @@
+// src/bindings.ts
+import { randomBytes, randomUUID } from "node:crypto";
+import signify from "signify-ts";
+import { verifyMessage } from "ethers";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { BINDING_CHALLENGE_TTL_MS } from "./config.js";
+import { getClient } from "./signify.js";
+import { getAid, extractPrefix } from "./aid.js";
+import { recipientPrefix } from "./contacts.js";
+import {
+  putBindingChallenge,
+  getBindingChallenge,
+  putBinding,
+  appendAudit,
+  type BindingInfo,
+  type BindingChallenge,
+} from "./store.js";
+
+const { Siger, Cigar, Verfer, Tholder } = signify;
+
+export type CompleteBindingOpts = {
+  ethSignature: string;       // EIP-191 personal_sign over the challenge message
+  aidSignatures?: string[];   // qb64 signatures (indexed or not) over the UTF-8 message bytes
+  sign?: boolean;             // local AIDs only: let our agent produce the AID signatures
+};
+
+/**
+ * The one message both parties sign. The AID signs its UTF-8 bytes with its
+ * current signing keys; the address signs it as an EIP-191 personal message:
+ *
+ *   onechain address binding
+ *   address: <0x… lowercase>
+ *   aid: <AID prefix>
+ *   nonce: <base64url, 128 bits>
+ *   issued: <ISO-8601>
+ *   expires: <ISO-8601>
+ */
+function bindingMessage(address: string, prefix: string, nonce: string, issued: string, expires: string) {
+  return [
+    "onechain address binding",
+    `address: ${address}`,
+    `aid: ${prefix}`,
+    `nonce: ${nonce}`,
+    `issued: ${issued}`,
+    `expires: ${expires}`,
+  ].join("\n");
+}
+
+export function normalizeAddress(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw new ApiError("BAD_REQUEST", `not an Ethereum address: ${address}`);
+  return address.toLowerCase();
+}
+
+/** Starts a binding for `aid` (local alias, contact alias or prefix) and `address`. */
+export async function createChallenge(address: string, aid: string): Promise<BindingChallenge> {
+  const addr = normalizeAddress(address);
+  const local = await getAid(aid);
+  const prefix = extractPrefix(local) ?? (await recipientPrefix(aid));
+  if (!prefix) throw new ApiError("AID_NOT_FOUND", `AID not found: ${aid}`);
+
+  const created = new Date();
+  const expires = new Date(created.getTime() + BINDING_CHALLENGE_TTL_MS);
+  const challenge: BindingChallenge = {
+    id: randomUUID(),
+    address: addr,
+    prefix,
+    ...(local ? { name: aid } : {}),
+    message: bindingMessage(addr, prefix, randomBytes(16).toString("base64url"), created.toISOString(), expires.toISOString()),
+    created: created.toISOString(),
+    expires: expires.toISOString(),
+  };
+  await putBindingChallenge(challenge);
+  return challenge;
+}
+
+async function signLocally(name: string, ser: Uint8Array): Promise<string[]> {
+  const client = getClient();
+  const hab = await client.identifiers().get(name);
+  return client.manager.get(hab).sign(ser);
+}
+
+// Signatures against the AID's current key state; must satisfy its signing threshold
+async function verifyAidSignatures(prefix: string, ser: Uint8Array, sigs: string[]) {
+  const states = await getClient().keyStates().get(prefix);
+  const state = Array.isArray(states) ? states[0] : states;
+  const keys: string[] = state?.k ?? [];
+  if (!keys.length) throw new ApiError("AID_NOT_FOUND", `no key state for ${prefix}`);
+
+  const indices = new Set<number>();
+  for (const qb64 of sigs) {
+    try {
+      const siger = new Siger({ qb64 });
+      const key = keys[siger.index];
+      if (key && new Verfer({ qb64: key }).verify(siger.raw, ser)) indices.add(siger.index);
+      continue;
+    } catch { /* not indexed */ }
+    try {
+      const cigar = new Cigar({ qb64 });
+      const i = keys.findIndex((k) => new Verfer({ qb64: k }).verify(cigar.raw, ser));
+      if (i >= 0) indices.add(i);
+    } catch { /* not a signature */ }
+  }
+
+  if (!indices.size || !new Tholder({ sith: state.kt ?? "1" }).satisfy(Array.from(indices))) {
+    throw new ApiError("INVALID_SIGNATURE", "AID signatures do not satisfy the signing threshold", { prefix, valid: indices.size });
+  }
+}
+
+export function verifyEthSignature(address: string, message: string, signature: string) {
+  let recovered: string;
+  try {
+    recovered = verifyMessage(message, signature).toLowerCase();
+  } catch {
+    throw new ApiError("INVALID_SIGNATURE", "malformed Ethereum signature");
+  }
+  if (recovered !== address) {
+    throw new ApiError("INVALID_SIGNATURE", "Ethereum signature is not from the bound address", { recovered });
+  }
+}
+
+/** Verifies both signatures over the challenge and records the binding. */
+export async function completeBinding(id: string, opts: CompleteBindingOpts): Promise<BindingInfo> {
+  const ch = await getBindingChallenge(id);
+  if (!ch) throw new ApiError("CHALLENGE_NOT_FOUND", `binding challenge not found: ${id}`);
+  if (ch.expires < new Date().toISOString()) throw new ApiError("CHALLENGE_EXPIRED", `binding challenge expired at ${ch.expires}`);
+
+  const ser = new TextEncoder().encode(ch.message);
+  let aidSignatures = opts.aidSignatures ?? [];
+  if (!aidSignatures.length && opts.sign) {
+    if (!ch.name) throw new ApiError("BAD_REQUEST", "only AIDs managed by this agent can be signed for; send aidSignatures");
+    aidSignatures = await signLocally(ch.name, ser);
+  }
+  if (!aidSignatures.length) throw new ApiError("BAD_REQUEST", "aidSignatures required (or sign=true for a local AID)");
+
+  verifyEthSignature(ch.address, ch.message, opts.ethSignature);
+  await verifyAidSignatures(ch.prefix, ser, aidSignatures);
+
+  const binding: BindingInfo = {
+    address: ch.address,
+    prefix: ch.prefix,
+    ...(ch.name ? { name: ch.name } : {}),
+    message: ch.message,
+    aidSignatures,
+    ethSignature: opts.ethSignature,
+    created: new Date().toISOString(),
+  };
+  await putBinding(binding, id);
+  await appendAudit({ action: "binding.create", actor: ch.name, target: ch.address, detail: { prefix: ch.prefix } });
+  logger.info("[binding] %s <-> %s", ch.address, ch.prefix);
+  return binding;
+}
@@ -0,0 +1,59 @@
+// src/cesr.test.ts
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import signify from "signify-ts";
+import { parseCesr, toCesr } from "./cesr.js";
+
+const { ready, Signer, Counter, CtrDex, Seqner } = signify;
+
+// JSON message with a correct byte size in its version string
+function message(proto: "KERI" | "ACDC", body: Record<string, unknown>) {
+  const draft = JSON.stringify({ v: `${proto}10JSON000000_`, ...body });
+  const size = Buffer.byteLength(draft, "utf8").toString(16).padStart(6, "0");
+  return draft.replace(`${proto}10JSON000000_`, `${proto}10JSON${size}_`);
+}
+
+before(async () => {
+  await ready();
+});
+
+test("messages and their signature and seal source attachments are split out", () => {
+  const signer = new Signer({ transferable: true });
+  const icp = message("KERI", { t: "icp", d: "E1", i: "E1", s: "0" });
+  const sig = signer.sign(new TextEncoder().encode(icp), 0).qb64;
+  const iss = message("KERI", { t: "iss", d: "E2", i: "E3", s: "0" });
+  const seal = new Counter({ code: CtrDex.SealSourceCouples, count: 1 }).qb64 + new Seqner({ sn: 5 }).qb64 + "EA".padEnd(44, "A");
+  const text = icp + new Counter({ code: CtrDex.ControllerIdxSigs, count: 1 }).qb64 + sig + iss + seal;
+
+  const [a, b] = parseCesr(text);
+  assert.equal(a.raw, icp);
+  assert.deepEqual(a.sigs, [sig]);
+  assert.deepEqual(b.sources, [{ sn: 5, said: "EA".padEnd(44, "A") }]);
+  assert.equal(toCesr([a, b]), text);
+});
+
+test("sizes count UTF-8 bytes, so non-ASCII content is cut byte-exact", () => {
+  const acdc = message("ACDC", { d: "E4", a: { legalName: "Société Générale – ÄÖÜ 株式会社" } });
+  const next = message("KERI", { t: "ixn", d: "E5", i: "E1", s: "1" });
+  const [a, b] = parseCesr(acdc + next);
+  assert.equal(a.raw, acdc);
+  assert.equal(a.ked.a.legalName, "Société Générale – ÄÖÜ 株式会社");
+  assert.equal(b.ked.t, "ixn");
+});
+
+test("whitespace between messages is skipped", () => {
+  const m = message("KERI", { t: "ixn", d: "E5", i: "E1", s: "1" });
+  assert.equal(parseCesr(`\n${m}\r\n${m} `).length, 2);
+});
+
+test("malformed streams are BAD_REQUEST with the offset", () => {
+  const m = message("KERI", { t: "ixn", d: "E5", i: "E1", s: "1" });
+  const bad = (text: string, what: RegExp) =>
+    assert.throws(() => parseCesr(text), (e: any) => e.code === "BAD_REQUEST" && what.test(e.message) && typeof e.detail?.offset === "number");
+
+  bad("-AAB" + m, /attachments before the first message/);
+  bad("x" + m, /unexpected "x"/);
+  bad('{"t":"ixn"}', /without a JSON version string/);
+  bad(m.replace(/JSON[0-9a-f]{6}_/, "JSON000010_"), /size does not match/);
+  bad(m + "-ZAB", /bad counter|unsupported attachment group/);
+});
@@ -0,0 +1,178 @@
+// src/cesr.ts
+import signify from "signify-ts";
+import { ApiError } from "./errors.js";
+
+const { Counter, Matter, Siger } = signify;
+
+// Seal source: the KEL event (sn + digest) that anchors a TEL event or a delegated event
+export type SealSource = { pre?: string; sn: number; said: string };
+
+/** One JSON message of a text-domain CESR stream with the attachments we act on. */
+export type CesrMessage = {
+  proto: "KERI" | "ACDC";
+  raw: string;                  // exact serialization the signatures and SAID are over
+  ked: any;
+  sigs: string[];               // controller indexed signatures (-A)
+  wigs: string[];               // witness indexed signatures (-B)
+  sources: SealSource[];        // -G couples and -I triples
+  atc: string;                  // attachment text as received, for re-serialization
+};
+
+export const KEL_ILKS = ["icp", "rot", "ixn", "dip", "drt"];
+export const TEL_ILKS = ["vcp", "vrt", "iss", "rev", "bis", "brv"];
+
+const VERSION = /"v":"(KERI|ACDC)([0-9a-f])([0-9a-f])JSON([0-9a-f]{6})_"/;
+
+function malformed(message: string, at: number): never {
+  throw new ApiError("BAD_REQUEST", `malformed CESR stream: ${message}`, { offset: at });
+}
+
+// Cursor over the text domain; every primitive knows its own size from its code
+class Reader {
+  constructor(public text: string, public at = 0, public end = text.length) {}
+
+  get done() {
+    return this.at >= this.end;
+  }
+
+  skipSpace() {
+    while (this.at < this.end && /\s/.test(this.text[this.at])) this.at++;
+  }
+
+  counter(): InstanceType<typeof Counter> {
+    try {
+      const c = new Counter({ qb64: this.text.slice(this.at, Math.min(this.end, this.at + 16)) });
+      this.at += c.qb64.length;
+      return c;
+    } catch (e: any) {
+      malformed(`bad counter (${e?.message ?? String(e)})`, this.at);
+    }
+  }
+
+  primitive(): InstanceType<typeof Matter> {
+    try {
+      const m = new Matter({ qb64: this.text.slice(this.at, Math.min(this.end, this.at + 256)) });
+      this.at += m.qb64.length;
+      return m;
+    } catch (e: any) {
+      malformed(`bad primitive (${e?.message ?? String(e)})`, this.at);
+    }
+  }
+
+  matter(): string {
+    return this.primitive().qb64;
+  }
+
+  siger(): string {
+    try {
+      const s = new Siger({ qb64: this.text.slice(this.at, Math.min(this.end, this.at + 256)) });
+      this.at += s.qb64.length;
+      return s.qb64;
+    } catch (e: any) {
+      malformed(`bad indexed signature (${e?.message ?? String(e)})`, this.at);
+    }
+  }
+
+  // Seqner: big-endian ordinal
+  sn(): number {
+    return Number(BigInt("0x" + (Buffer.from(this.primitive().raw).toString("hex") || "0")));
+  }
+}
+
+// Attachment groups; the ones we do not verify are skipped by size
+function attachments(r: Reader, msg: CesrMessage) {
+  while (!r.done && r.text[r.at] === "-") {
+    const c = r.counter();
+    switch (c.code) {
+      case "-V":
+      case "-0V": {
+        const inner = new Reader(r.text, r.at, r.at + c.count * 4);
+        attachments(inner, msg);
+        r.at = inner.end;
+        break;
+      }
+      case "-A":
+        for (let i = 0; i < c.count; i++) msg.sigs.push(r.siger());
+        break;
+      case "-B":
+        for (let i = 0; i < c.count; i++) msg.wigs.push(r.siger());
+        break;
+      case "-C":
+      case "-E":
+        for (let i = 0; i < c.count * 2; i++) r.matter();
+        break;
+      case "-D":
+        for (let i = 0; i < c.count; i++) {
+          r.matter(); r.matter(); r.matter(); r.siger();
+        }
+        break;
+      case "-F":
+      case "-H":
+        for (let i = 0; i < c.count; i++) {
+          r.matter();
+          if (c.code === "-F") { r.matter(); r.matter(); }
+          const sigs = r.counter();
+          for (let j = 0; j < sigs.count; j++) r.siger();
+        }
+        break;
+      case "-G":
+        for (let i = 0; i < c.count; i++) msg.sources.push({ sn: r.sn(), said: r.matter() });
+        break;
+      case "-I":
+        for (let i = 0; i < c.count; i++) msg.sources.push({ pre: r.matter(), sn: r.sn(), said: r.matter() });
+        break;
+      case "-L":
+        r.at += c.count * 4;
+        break;
+      case "--AAA":
+        break;
+      default:
+        malformed(`unsupported attachment group ${c.code}`, r.at);
+    }
+  }
+}
+
+/**
+ * Splits a text-domain CESR stream (as served by KERIA with
+ * `Accept: application/json+cesr`) into its JSON messages. Sizes come from
+ * the version string, so `raw` is byte-exact for SAID and signature checks.
+ */
+export function parseCesr(text: string): CesrMessage[] {
+  const out: CesrMessage[] = [];
+  const r = new Reader(text);
+  for (r.skipSpace(); !r.done; r.skipSpace()) {
+    if (text[r.at] === "-") {
+      if (!out.length) malformed("attachments before the first message", r.at);
+      const from = r.at;
+      attachments(r, out[out.length - 1]);
+      out[out.length - 1].atc += text.slice(from, r.at);
+      continue;
+    }
+    if (text[r.at] !== "{") malformed(`unexpected "${text[r.at]}"`, r.at);
+
+    const v = VERSION.exec(text.slice(r.at, r.at + 64));
+    if (!v) malformed("message without a JSON version string", r.at);
+    const size = parseInt(v[4], 16);
+    // the size counts UTF-8 bytes, the cursor counts UTF-16 units
+    const bytes = Buffer.from(text.slice(r.at, r.at + size * 2), "utf8").subarray(0, size);
+    const raw = bytes.toString("utf8");
+    let ked: any;
+    try {
+      ked = JSON.parse(raw);
+    } catch {
+      malformed("message size does not match its version string", r.at);
+    }
+    const msg: CesrMessage = { proto: v[1] as "KERI" | "ACDC", raw, ked, sigs: [], wigs: [], sources: [], atc: "" };
+    r.at += raw.length;
+    const from = r.at;
+    attachments(r, msg);
+    msg.atc = text.slice(from, r.at);
+    out.push(msg);
+  }
+  return out;
+}
+
+/** Messages back to a text-domain stream. */
+export function toCesr(messages: CesrMessage[]): string {
+  return messages.map((m) => m.raw + m.atc).join("");
+}
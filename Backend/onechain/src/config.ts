@@ -4,7 +4,21 @@ export const PORT = parseInt(process.env.PORT ?? process.env.HTTP_PORT ?? "18882
 
 export const KERIA_ADMIN = process.env.KERIA_ADMIN_URL ?? "http://keria:3901";
 export const KERIA_BOOT  = process.env.KERIA_BOOT_URL  ?? "http://keria:3903/boot";
-export const PASSCODE    = process.env.CONTROLLER_PASSCODE ?? "0123456789abcdefghijk";
+// Controller bran: explicit env, else generated once on first boot into the keystore, or into
+// CONTROLLER_BRAN_FILE (unencrypted, 0600) without a master key (see tenants.ts). The bran selects
+// the KERIA agent: a different bran is a different, empty agent, so never change it once booted.
+// DEV_PASSCODE is only accepted against development KERIA hosts (loopback by default).
+export const PASSCODE     = process.env.CONTROLLER_PASSCODE ?? "";
+export const BRAN_FILE    = process.env.CONTROLLER_BRAN_FILE ?? "/app/data/controller.bran";
+export const DEV_PASSCODE = "0123456789abcdefghijk";
+export const DEV_KERIA_HOSTS = (process.env.DEV_KERIA_HOSTS ?? "localhost,127.0.0.1,::1")
+  .split(",").map((h) => h.trim().toLowerCase()).filter(Boolean);
+
+// Witness pool: WITNESS_POOL_FILE (JSON or YAML: [{ eid, url, oobi?, name?, enabled? }] or { witnesses: [...] })
+// or WITNESSES (the same JSON, or a comma-separated list of witness OOBIs / "eid=url" pairs).
+// Without either, the three demo witnesses below (W1_*..W3_*) form the pool. See witness-pool.ts.
+export const WITNESS_POOL_FILE = process.env.WITNESS_POOL_FILE ?? "";
+export const WITNESSES         = process.env.WITNESSES ?? "";
 
 export const W1_EID = process.env.W1_EID ?? "BHNToblRIHAQowUthBzac6qzGrHz0ScG0WeIaXu3rvIT"; // wan
 export const W2_EID = process.env.W2_EID ?? "BBOPdJQxRVH3uu5TJNMA7rFWIDWKZ1DV1dE9Q9oDQ_kR"; // wil
@@ -14,18 +28,10 @@ export const W1_URL = process.env.W1_URL ?? "http://wan:5642";
 export const W2_URL = process.env.W2_URL ?? "http://wil:5643";
 export const W3_URL = process.env.W3_URL ?? "http://wes:5644";
 
-export const WITNESS_EIDS = [W1_EID, W2_EID, W3_EID];
-
-export const WITNESS_OOBIS = [
-  `${W1_URL}/oobi/${W1_EID}/witness`,
-  `${W2_URL}/oobi/${W2_EID}/witness`,
-  `${W3_URL}/oobi/${W3_EID}/witness`,
-];
-
-export const WITNESS_ENDPOINTS: Array<{ eid: string; url: string }> = [
-  { eid: W1_EID, url: W1_URL },
-  { eid: W2_EID, url: W2_URL },
-  { eid: W3_EID, url: W3_URL },
+export const DEFAULT_WITNESSES: Array<{ eid: string; url: string; name?: string }> = [
+  { eid: W1_EID, url: W1_URL, name: "wan" },
+  { eid: W2_EID, url: W2_URL, name: "wil" },
+  { eid: W3_EID, url: W3_URL, name: "wes" },
 ];
 
 export const TOAD = parseInt(process.env.TOAD ?? "2", 10);
@@ -39,6 +45,12 @@ export const CONTACT_WAIT_POLL_MS = parseInt(
   10
 );
 
+// Background witness monitor (witnesses.ts): probe interval (0 = off), HTTP probe timeout and
+// how many consecutive rounds a contact must be seen before the witness counts as available
+export const WITNESS_MONITOR_INTERVAL_MS = parseInt(process.env.WITNESS_MONITOR_INTERVAL_MS ?? "15000", 10);
+export const WITNESS_PROBE_TIMEOUT_MS    = parseInt(process.env.WITNESS_PROBE_TIMEOUT_MS ?? "3000", 10);
+export const WITNESS_STABLE_ROUNDS       = parseInt(process.env.WITNESS_STABLE_ROUNDS ?? "2", 10);
+
 export const SCHEMA_QVI_SAID          =
   process.env.SCHEMA_QVI_SAID ??
   "EBfdlu8R27Fbx-ehrqwImnK-8Cm79sqbAQ4MmvEAYqao"; // qualified-vLEI-issuer-vLEI-credential.json
@@ -47,6 +59,84 @@ export const SCHEMA_LEGAL_ENTITY_SAID =
   process.env.SCHEMA_LE_SAID  ??
   "ENPXp1vQzRF6JwIuS-mp2U8Uf1MoADoP_GqQ62VsDZWY"; // legal-entity-vLEI-credential.json
 
+export const SCHEMA_OOR_AUTH_SAID     =
+  process.env.SCHEMA_OOR_AUTH_SAID ??
+  "EKA57bKBKxr_kN7iN5i7lMUxpMG-s19dRcmov1iDxz-E"; // oor-authorization-vlei-credential.json
+
+export const SCHEMA_OOR_SAID          =
+  process.env.SCHEMA_OOR_SAID ??
+  "EBNaNu-M9P5cgrnfl2Fvymy4E_jvxxyjb70PRtiANlJy"; // legal-entity-official-organizational-role-vLEI-credential.json
+
+export const SCHEMA_ECR_AUTH_SAID     =
+  process.env.SCHEMA_ECR_AUTH_SAID ??
+  "EH6ekLjSr8V32WyFbGe1zXjTzFs9PkTYmupJ9H65O14g"; // ecr-authorization-vlei-credential.json
+
+export const SCHEMA_ECR_SAID          =
+  process.env.SCHEMA_ECR_SAID ??
+  "EEy9PkikFcANV1l7EHukCeXqrzT1hNZjGlUk7wuMO5jw"; // legal-entity-engagement-context-role-vLEI-credential.json
+
+// Schema OOBIs are served by the vLEI-server ("schema" in docker-compose);
+// SCHEMA_DIR is checked first for JSON schema files ($id = SAID); it ships empty, see schema/README.md.
+export const SCHEMA_BASE_URL = (process.env.SCHEMA_BASE_URL ?? "http://schema:7723").replace(/\/+$/, "");
+export const SCHEMA_DIR      = process.env.SCHEMA_DIR ?? "/app/schema";
+
+// Root (GEDA-style) delegator that delegates the QVI and issues its credential during /init
+export const GEDA_AID_NAME = process.env.GEDA_AID_NAME ?? "geda";
+
+// Trusted vLEI roots for presentation verification (verify.ts), comma-separated prefixes;
+// the local GEDA AID is always trusted when it exists
+export const VLEI_ROOT_AIDS = (process.env.VLEI_ROOT_AIDS ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+
 // QVI bootstrap values used during /init
 export const QVI_AID_NAME = process.env.QVI_AID_NAME ?? "qvi";
 export const QVI_LEI      = process.env.QVI_LEI      ?? "529900T8BM49AURSDO55";
+
+// Store <-> KERIA reconcile at startup: "off" | "report" | "repair"
+export const RECONCILE_ON_START = (process.env.RECONCILE_ON_START ?? "report").toLowerCase();
+
+// Default max wait for KERIA long-running operations
+export const OP_WAIT_TIMEOUT_MS = parseInt(process.env.OP_WAIT_TIMEOUT_MS ?? "30000", 10);
+
+// Max wait for KERIA operations behind IPEX grant/admit
+export const IPEX_WAIT_TIMEOUT_MS = parseInt(process.env.IPEX_WAIT_TIMEOUT_MS ?? "30000", 10);
+
+// Tenants: each tenant owns its KERIA agent (bran). The default tenant uses the controller bran;
+// others come from the keystore, TENANT_BRANS (JSON {"<tenant>": "<21-char bran>"}) and/or TENANTS_FILE (same shape).
+export const DEFAULT_TENANT = process.env.DEFAULT_TENANT ?? "default";
+export const TENANT_HEADER  = (process.env.TENANT_HEADER ?? "x-tenant-id").toLowerCase();
+export const TENANT_BRANS   = process.env.TENANT_BRANS ?? "";
+export const TENANTS_FILE   = process.env.TENANTS_FILE ?? "";
+
+// Signify client pool: LRU cap and idle eviction
+export const CLIENT_POOL_MAX     = parseInt(process.env.CLIENT_POOL_MAX ?? "16", 10);
+export const CLIENT_IDLE_TTL_MS  = parseInt(process.env.CLIENT_IDLE_TTL_MS ?? "900000", 10);
+
+// Encrypted keystore for generated brans; the master key comes from env or a mounted file
+export const KEYSTORE_PATH        = process.env.KEYSTORE_PATH ?? "/app/data/keystore.json";
+export const MASTER_KEY           = process.env.ONECHAIN_MASTER_KEY ?? "";
+export const MASTER_KEY_FILE      = process.env.ONECHAIN_MASTER_KEY_FILE ?? "/run/secrets/onechain_master_key";
+
+// API auth: "required" (default) or "off". Principals come from AUTH_KEYS_FILE
+// ({"keys": [{ id, key | keyHash | user+password, roles, tenant? }]}); JWTs are HS256 with AUTH_JWT_SECRET.
+export const AUTH_MODE       = (process.env.AUTH_MODE ?? "required").toLowerCase();
+export const AUTH_KEYS_FILE  = process.env.AUTH_KEYS_FILE ?? "/app/data/auth-keys.json";
+// first boot without AUTH_KEYS_FILE: a generated admin key is written here (0600), its hash to AUTH_KEYS_FILE
+export const AUTH_BOOTSTRAP_KEY_FILE = process.env.AUTH_BOOTSTRAP_KEY_FILE ?? "/app/data/admin.key";
+export const AUTH_JWT_SECRET = process.env.AUTH_JWT_SECRET ?? "";
+export const AUTH_JWT_ISSUER = process.env.AUTH_JWT_ISSUER ?? "";
+export const AUTH_JWT_AUDIENCE = process.env.AUTH_JWT_AUDIENCE ?? "onechain";
+
+// Base URL the agent reaches onechain on; KELs of imported credentials are served there as OOBIs
+// (imports.ts). Empty: imports are stored and verified but not resolved into the agent
+export const OOBI_BASE_URL = (process.env.OOBI_BASE_URL ?? "http://onechain:18882").replace(/\/+$/, "");
+
+// Address <-> AID binding challenges (bindings.ts) expire after this long
+export const BINDING_CHALLENGE_TTL_MS = parseInt(process.env.BINDING_CHALLENGE_TTL_MS ?? "600000", 10);
+
+// Batch issuance (jobs.ts): max rows per job and holder AIDs set up in parallel (per job, overridable per request)
+export const BATCH_MAX_ROWS    = parseInt(process.env.BATCH_MAX_ROWS ?? "1000", 10);
+export const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY ?? "4", 10);
+
+// GLEIF golden copy (lei.ts): unzipped LEI-CDF file, CSV or XML, imported on start and checked before
+// Legal Entity issuance. Empty: LEIs are only checked for ISO 17442 structure and check digits
+export const GLEIF_GOLDEN_COPY_FILE = process.env.GLEIF_GOLDEN_COPY_FILE ?? "";
@@ -0,0 +1,123 @@
+// src/contacts.ts
+import { logger } from "./logger.js";
+import { ApiError, keriaHttpStatus } from "./errors.js";
+import { getClient } from "./signify.js";
+import { getAid, extractPrefix } from "./aid.js";
+import { trackOperation, type OpHandle } from "./operations.js";
+import { appendAudit } from "./store.js";
+
+export const OOBI_ROLES = ["agent", "witness", "controller"] as const;
+export type OobiRole = (typeof OOBI_ROLES)[number];
+
+// Free-form contact fields; alias/oobi/id are managed by KERIA
+export type ContactInfo = Record<string, unknown>;
+
+const MANAGED = ["id", "alias", "oobi", "challenges", "wellKnowns", "ends"];
+
+export function prefixFromOobi(u: string): string | null {
+  const m = /\/oobi\/([A-Za-z0-9_\-]+)/.exec(u);
+  return m ? m[1] : null;
+}
+
+function contactPrefix(c: any): string | null {
+  return c?.id ?? c?.pre ?? c?.prefix ?? c?.eid ?? null;
+}
+
+function userFields(info: ContactInfo = {}): ContactInfo {
+  return Object.fromEntries(Object.entries(info).filter(([k]) => !MANAGED.includes(k)));
+}
+
+/**
+ * OOBIs of a local AID for `role`. The agent role needs an end-role
+ * authorization first; it is added on demand so wallets can resolve us.
+ * Null when the AID does not exist.
+ */
+export async function aidOobis(name: string, role: OobiRole = "agent"): Promise<{ role: OobiRole; oobis: string[] } | null> {
+  const client = getClient();
+  const aid = await getAid(name);
+  if (!aid) return null;
+
+  let oobis: string[] = (await client.oobis().get(name, role))?.oobis ?? [];
+  if (!oobis.length && role === "agent") {
+    const res = await client.identifiers().addEndRole(name, "agent", client.agent?.pre);
+    await trackOperation(await res?.op?.(), "aid.endrole", { wait: true, meta: { name, role } });
+    await appendAudit({ action: "aid.endrole", actor: name, target: extractPrefix(aid) ?? name, detail: { role } });
+    oobis = (await client.oobis().get(name, role))?.oobis ?? [];
+  }
+  return { role, oobis };
+}
+
+/** Resolves a foreign OOBI into a contact named `alias`; the KERIA operation is tracked. */
+export async function resolveOobi(oobi: string, alias: string, wait = false): Promise<{ prefix: string | null; alias: string; operation: OpHandle | null }> {
+  const client = getClient();
+  const prefix = prefixFromOobi(oobi);
+  const op = await client.oobis().resolve(oobi, alias);
+  const operation = await trackOperation(op, "oobi.resolve", { wait, meta: { oobi, alias, prefix } });
+  await appendAudit({ action: "oobi.resolve", target: prefix ?? oobi, detail: { oobi, alias } });
+  logger.info("[oobi.resolve] %j", { alias, prefix, done: operation?.done });
+  return { prefix, alias, operation };
+}
+
+export async function listContacts(filter: { group?: string; field?: string; value?: string } = {}): Promise<any[]> {
+  const client = getClient();
+  const list = await client.contacts().list(filter.group, filter.field, filter.value);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function getContact(pre: string): Promise<any | null> {
+  const client = getClient();
+  try {
+    return await client.contacts().get(pre);
+  } catch (e: any) {
+    if (keriaHttpStatus(e) === 404) return null;
+    throw e;
+  }
+}
+
+/** Contact by prefix or alias. */
+export async function findContact(ref: string): Promise<any | null> {
+  if (/^[A-Za-z0-9_-]{44}$/.test(ref)) {
+    const c = await getContact(ref);
+    if (c) return c;
+  }
+  const byAlias = await listContacts({ field: "alias", value: ref });
+  return byAlias.find((c) => c?.alias === ref) ?? null;
+}
+
+/**
+ * New contact from an OOBI: resolves it (waiting, since the contact only
+ * exists afterwards) and stores the extra fields on it.
+ */
+export async function createContact(oobi: string, alias: string, info: ContactInfo = {}) {
+  const { prefix, operation } = await resolveOobi(oobi, alias, true);
+  if (!prefix) throw new ApiError("BAD_REQUEST", `cannot read a prefix from OOBI: ${oobi}`);
+  const fields = userFields(info);
+  const contact = Object.keys(fields).length
+    ? await getClient().contacts().update(prefix, fields)
+    : (await getContact(prefix)) ?? { id: prefix, alias, oobi };
+  return { contact, operation };
+}
+
+export async function updateContact(pre: string, info: ContactInfo) {
+  if (!(await getContact(pre))) return null;
+  const contact = await getClient().contacts().update(pre, userFields(info));
+  await appendAudit({ action: "contact.update", target: pre, detail: { fields: Object.keys(userFields(info)) } });
+  return contact;
+}
+
+export async function deleteContact(pre: string): Promise<boolean> {
+  if (!(await getContact(pre))) return false;
+  await getClient().contacts().delete(pre);
+  await appendAudit({ action: "contact.delete", target: pre });
+  return true;
+}
+
+/**
+ * Credential recipient -> prefix: a local AID alias, or a contact (alias or
+ * prefix) for wallets outside our agent. Null when neither knows `ref`.
+ */
+export async function recipientPrefix(ref: string): Promise<string | null> {
+  const local = extractPrefix(await getAid(ref));
+  if (local) return local;
+  return contactPrefix(await findContact(ref));
+}
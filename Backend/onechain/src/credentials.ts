@@ -0,0 +1,175 @@
+// src/credentials.ts
+import { solidityPackedKeccak256 } from "ethers";
+import { logger } from "./logger.js";
+import { ApiError, keriaHttpStatus } from "./errors.js";
+import { getClient } from "./signify.js";
+import { getAid, extractPrefix } from "./aid.js";
+import { getAidLocal, getCredsForName, getImport } from "./store.js";
+import { parseCesr } from "./cesr.js";
+
+export type CredentialQuery = {
+  issuer?: string;   // alias (or prefix)
+  holder?: string;   // alias or prefix
+  schema?: string;   // schema SAID
+  lei?: string;
+  from?: string;     // ISO date, inclusive, on a.dt
+  to?: string;       // ISO date, inclusive, on a.dt
+  offset?: number;
+  limit?: number;
+};
+
+export type CredentialSummary = {
+  said: string;
+  schema: string;
+  issuer: string;
+  holder: string | null;
+  registry: string | null;
+  lei: string | null;
+  legalName: string | null;
+  dt: string | null;
+  status: string | null;
+  vleiHash: string | null;
+};
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+function looksLikePrefix(s: string) {
+  return /^[A-Za-z0-9_\-]{44}$/.test(s);
+}
+
+// alias -> prefix: local index first, then the agent; raw prefixes pass through
+async function resolvePrefix(nameOrPrefix: string): Promise<string | null> {
+  const local = await getAidLocal(nameOrPrefix);
+  if (local?.prefix) return local.prefix;
+  const a = await getAid(nameOrPrefix);
+  const pre = extractPrefix(a);
+  if (pre) return pre;
+  return looksLikePrefix(nameOrPrefix) ? nameOrPrefix : null;
+}
+
+/**
+ * On-chain fingerprint of a credential, as passed to
+ * PartyRegistry.registerAndVerifyAuto(lei, vleiHash):
+ *
+ *   vleiHash = keccak256(abi.encodePacked(said, LEI))
+ *
+ * i.e. keccak256 over the UTF-8 credential SAID followed by the UTF-8 LEI,
+ * as 0x-prefixed lowercase hex. Null for credentials without an LEI.
+ */
+export function vleiHash(said: string | null | undefined, lei: string | null | undefined): string | null {
+  if (!said || !lei) return null;
+  return solidityPackedKeccak256(["string", "string"], [said, lei]);
+}
+
+export function summarize(c: any): CredentialSummary {
+  const sad = c?.sad ?? {};
+  return {
+    said: sad.d,
+    schema: sad.s,
+    issuer: sad.i,
+    holder: sad.a?.i ?? null,
+    registry: sad.ri ?? null,
+    lei: sad.a?.LEI ?? null,
+    legalName: sad.a?.legalName ?? null,
+    dt: sad.a?.dt ?? null,
+    status: c?.status?.et ?? null,
+    vleiHash: vleiHash(sad.d, sad.a?.LEI),
+  };
+}
+
+function inRange(dt: string | null, from?: string, to?: string) {
+  if (!from && !to) return true;
+  const t = dt ? Date.parse(dt) : NaN;
+  if (Number.isNaN(t)) return false;
+  if (from && t < Date.parse(from)) return false;
+  if (to && t > Date.parse(to)) return false;
+  return true;
+}
+
+export async function listCredentials(q: CredentialQuery = {}) {
+  const client = getClient();
+  const offset = Math.max(0, q.offset ?? 0);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, q.limit ?? DEFAULT_PAGE_SIZE));
+
+  const filter: Record<string, string> = {};
+  if (q.schema) filter["-s"] = q.schema;
+  if (q.lei) filter["-a-LEI"] = q.lei;
+
+  if (q.issuer) {
+    const pre = await resolvePrefix(q.issuer);
+    if (!pre) return { items: [], offset, limit };
+    filter["-i"] = pre;
+  }
+
+  // holders outside our agent (e.g. eth-address names) are only known to the local index
+  let onlySaids: Set<string> | null = null;
+  if (q.holder) {
+    const pre = await resolvePrefix(q.holder);
+    if (pre) {
+      filter["-a-i"] = pre;
+    } else {
+      const local = await getCredsForName(q.holder);
+      onlySaids = new Set(local.map((c) => c.said).filter(Boolean) as string[]);
+      if (!onlySaids.size) return { items: [], offset, limit };
+    }
+  }
+
+  // date range and local-index filtering happen here, so page after filtering
+  const postFilter = Boolean(q.from || q.to || onlySaids);
+  const kargs: any = { filter };
+  if (!postFilter) {
+    kargs.skip = offset;
+    kargs.limit = limit;
+  }
+
+  logger.debug("[cred.list] %j", { kargs, from: q.from, to: q.to });
+  const list = await client.credentials().list(kargs);
+  let items: CredentialSummary[] = (Array.isArray(list) ? list : []).map(summarize);
+
+  if (postFilter) {
+    items = items
+      .filter((c) => !onlySaids || onlySaids.has(c.said))
+      .filter((c) => inRange(c.dt, q.from, q.to))
+      .slice(offset, offset + limit);
+  }
+
+  logger.info("[cred.list] %d items (offset=%d limit=%d)", items.length, offset, limit);
+  return { items, offset, limit };
+}
+
+// Chained credentials the agent does not hold (e.g. an imported QVI credential) come from their import
+async function withImportedParents(cesr: string): Promise<string> {
+  const present = new Set<string>();
+  const edges = new Set<string>();
+  for (const m of parseCesr(cesr)) {
+    if (m.proto !== "ACDC") continue;
+    present.add(m.ked.d);
+    for (const [k, e] of Object.entries<any>(m.ked.e && typeof m.ked.e === "object" ? m.ked.e : {})) {
+      if (k !== "d" && typeof e?.n === "string") edges.add(e.n);
+    }
+  }
+  let out = cesr;
+  for (const n of edges) {
+    const imported = present.has(n) ? undefined : await getImport(n);
+    if (imported) out += imported.cesr;
+  }
+  return out;
+}
+
+/**
+ * A credential as a text-domain CESR stream: the ACDC with its chained
+ * credentials, the issuers' KELs and the registry/credential TELs. The
+ * agent's copy first (with imported parents it lacks), then one imported
+ * through POST /credentials/import.
+ */
+export async function credentialCesr(said: string): Promise<string> {
+  try {
+    return await withImportedParents(await getClient().credentials().get(said, true));
+  } catch (e: any) {
+    if (keriaHttpStatus(e) !== 404) throw e;
+  }
+  const imported = await getImport(said);
+  if (!imported) throw new ApiError("CREDENTIAL_NOT_FOUND", `credential not found: ${said}`);
+  return imported.cesr;
+}
@@ -0,0 +1,55 @@
+// src/csv.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, readCsv } from "./csv.js";
+
+async function* chunks(text: string, size: number) {
+  for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+}
+
+async function collect(rows: AsyncIterable<Record<string, string>>) {
+  const out: Record<string, string>[] = [];
+  for await (const r of rows) out.push(r);
+  return out;
+}
+
+const TEXT = '\uFEFFname, lei ,note\r\nacme,5493001KJTIIGC8Y1R12,"plain"\r\n\r\n"b, inc","529900T8BM49AURSDO55","says ""hi""\nover two lines"\r\nc,,\n';
+const ROWS = [
+  { name: "acme", lei: "5493001KJTIIGC8Y1R12", note: "plain" },
+  { name: "b, inc", lei: "529900T8BM49AURSDO55", note: 'says "hi"\nover two lines' },
+  { name: "c" },
+];
+
+test("quoted fields keep commas, newlines and doubled quotes; blank lines and empty cells are dropped", () => {
+  assert.deepEqual(parseCsv(TEXT), ROWS);
+});
+
+test("readCsv gives the same rows whatever the chunk size", async () => {
+  for (const size of [1, 2, 3, 7, TEXT.length]) {
+    assert.deepEqual(await collect(readCsv(chunks(TEXT, size))), ROWS, `chunk size ${size}`);
+  }
+});
+
+test("an unterminated quoted field is an error with the line it reached", () => {
+  assert.throws(
+    () => parseCsv('name,lei\nacme,"5493001KJTIIGC8Y1R12\nb,529900T8BM49AURSDO55\n'),
+    (e: any) => e.code === "BAD_REQUEST" && /unterminated quoted field/.test(e.message) && e.detail?.line === 4
+  );
+});
+
+test("an unterminated quoted field fails a chunked read too", async () => {
+  await assert.rejects(collect(readCsv(chunks('name\n"acme', 2))), (e: any) => /unterminated quoted field/.test(e.message));
+});
+
+test("a quoted field closed at the end of the text is not unterminated", () => {
+  assert.deepEqual(parseCsv('name\n"acme"'), [{ name: "acme" }]);
+});
+
+test("headers must be unique and non-empty", () => {
+  assert.throws(() => parseCsv("name,name\na,b\n"), /unique, non-empty/);
+  assert.throws(() => parseCsv("name,,lei\na,b,c\n"), /unique, non-empty/);
+});
+
+test("a row with more cells than the header is rejected", () => {
+  assert.throws(() => parseCsv("name,lei\na,b,c\n"), (e: any) => /more cells/.test(e.message) && e.detail?.row === 0);
+});
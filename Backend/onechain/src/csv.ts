@@ -0,0 +1,119 @@
+// src/csv.ts
+import { ApiError } from "./errors.js";
+
+// RFC 4180 lines from text pushed in arbitrary slices (a quote pair or CRLF may straddle two)
+class CsvLines {
+  lines: string[][] = [];
+  lineNo = 1;
+  private line: string[] = [];
+  private cell = "";
+  private quoted = false;
+  private quoteSeen = false;  // in a quoted field, a '"' that closes it unless another follows
+  private skipLf = false;
+
+  push(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (this.skipLf) {
+        this.skipLf = false;
+        if (ch === "\n") continue;
+      }
+      if (this.quoteSeen) {
+        this.quoteSeen = false;
+        if (ch === '"') {
+          this.cell += '"';
+          continue;
+        }
+        this.quoted = false;
+      } else if (this.quoted) {
+        if (ch === '"') this.quoteSeen = true;
+        else {
+          if (ch === "\n") this.lineNo++;
+          this.cell += ch;
+        }
+        continue;
+      }
+      if (ch === '"' && this.cell === "") {
+        this.quoted = true;
+      } else if (ch === ",") {
+        this.line.push(this.cell);
+        this.cell = "";
+      } else if (ch === "\n" || ch === "\r") {
+        this.skipLf = ch === "\r";
+        this.line.push(this.cell);
+        this.lines.push(this.line);
+        this.line = [];
+        this.cell = "";
+        this.lineNo++;
+      } else {
+        this.cell += ch;
+      }
+    }
+  }
+
+  end() {
+    if (this.quoted && !this.quoteSeen) throw new ApiError("BAD_REQUEST", "malformed CSV: unterminated quoted field", { line: this.lineNo });
+    if (this.cell !== "" || this.line.length) this.lines.push([...this.line, this.cell]);
+  }
+
+  take(): string[][] {
+    const out = this.lines.filter((l) => l.some((c) => c.trim() !== ""));
+    this.lines = [];
+    return out;
+  }
+}
+
+function toHeader(cells: string[]) {
+  const header = cells.map((h) => h.trim()); // trim() also drops a BOM
+  if (header.some((h) => !h) || new Set(header).size !== header.length) {
+    throw new ApiError("BAD_REQUEST", "malformed CSV: header needs unique, non-empty column names", { header });
+  }
+  return header;
+}
+
+function toObject(header: string[], cells: string[], row: number) {
+  if (cells.length > header.length) {
+    throw new ApiError("BAD_REQUEST", "malformed CSV: more cells than header columns", { row, cells: cells.length });
+  }
+  const obj: Record<string, string> = {};
+  cells.forEach((c, i) => {
+    const v = c.trim();
+    if (v !== "") obj[header[i]] = v;
+  });
+  return obj;
+}
+
+/**
+ * RFC 4180 text -> one object per data line, keyed by the trimmed header
+ * row. Quoted fields may hold commas, newlines and doubled quotes; blank
+ * lines are skipped and empty cells are left out of their object.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines = new CsvLines();
+  lines.push(text);
+  lines.end();
+  const rows = lines.take();
+  if (!rows.length) return [];
+
+  const header = toHeader(rows[0]);
+  return rows.slice(1).map((cells, n) => toObject(header, cells, n));
+}
+
+/** parseCsv over a stream of text chunks (files too large to hold as one string). */
+export async function* readCsv(chunks: AsyncIterable<string>): AsyncGenerator<Record<string, string>> {
+  const lines = new CsvLines();
+  let header: string[] | null = null;
+  let n = 0;
+  const drain = function* () {
+    for (const cells of lines.take()) {
+      if (!header) header = toHeader(cells);
+      else yield toObject(header, cells, n++);
+    }
+  };
+  for await (const chunk of chunks) {
+    lines.push(chunk);
+    yield* drain();
+  }
+  lines.end();
+  yield* drain();
+}
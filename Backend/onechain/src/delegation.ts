@@ -0,0 +1,134 @@
+// src/delegation.ts
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { getClient } from "./signify.js";
+import { getAid, createAid, extractPrefix } from "./aid.js";
+import { trackOperation } from "./operations.js";
+import { appendAudit } from "./store.js";
+import { prefixFromOobi } from "./contacts.js";
+
+const DELEGATE_ROUTE = "/delegate/request";
+
+export type DelegationRequest = {
+  note: string;        // notification id
+  delegate: string;    // delegated AID prefix
+  delegator: string;   // our prefix
+  sn: string;          // hex sequence number of the delegated event
+  said: string;        // SAID of the delegated event
+  type: string;        // "dip" | "drt"
+  dt: string | null;
+};
+
+/**
+ * Delegator reference -> prefix. Accepts a local alias, a raw prefix or an
+ * OOBI URL (resolved into a contact so the delegate can verify anchors).
+ */
+export async function resolveDelegator(ref: string): Promise<string> {
+  if (/^https?:\/\//.test(ref)) {
+    const client = getClient();
+    const pre = prefixFromOobi(ref);
+    if (!pre) throw new ApiError("BAD_REQUEST", `cannot read a prefix from delegator OOBI: ${ref}`);
+    const op = await client.oobis().resolve(ref, `delegator-${pre.slice(0, 6)}`);
+    await trackOperation(op, "oobi.resolve", { wait: true, meta: { oobi: ref } });
+    return pre;
+  }
+  return extractPrefix(await getAid(ref)) ?? ref;
+}
+
+/** Unread delegation requests addressed to the given local delegator. */
+export async function listDelegationRequests(delegatorName: string): Promise<DelegationRequest[] | null> {
+  const client = getClient();
+  const delegator = extractPrefix(await getAid(delegatorName));
+  if (!delegator) return null;
+
+  const r = await client.notifications().list();
+  const notes = (Array.isArray(r) ? r : r?.notes ?? []).filter(
+    (n: any) => n?.a?.r === DELEGATE_ROUTE && !n?.r
+  );
+
+  return notes
+    .filter((n: any) => (n.a.delpre ?? n.a.ked?.di) === delegator)
+    .map((n: any) => ({
+      note: n.i,
+      delegate: n.a.ked?.i,
+      delegator,
+      sn: n.a.ked?.s ?? "0",
+      said: n.a.ked?.d,
+      type: n.a.ked?.t ?? "dip",
+      dt: n.dt ?? null,
+    }));
+}
+
+export type ApproveDelegationOpts = {
+  sn?: string;       // hex; defaults to the pending request's (or "0")
+  said?: string;     // delegated event SAID; defaults to the pending request's
+  wait?: boolean;    // wait for the anchoring ixn (default true)
+};
+
+/**
+ * Anchors a delegated event in the delegator's KEL (interaction event with
+ * seal {i, s, d}). Returns null when the delegator is unknown.
+ */
+export async function approveDelegation(
+  delegatorName: string,
+  delegate: string,
+  opts: ApproveDelegationOpts = {}
+) {
+  const client = getClient();
+  const pending = await listDelegationRequests(delegatorName);
+  if (!pending) return null;
+
+  const req = pending.find((p) => p.delegate === delegate && (!opts.sn || p.sn === opts.sn));
+  const seal = {
+    i: delegate,
+    s: opts.sn ?? req?.sn ?? "0",
+    d: opts.said ?? req?.said ?? delegate, // inception: SAID == prefix
+  };
+
+  logger.info("[delegation.approve] %s anchors %j", delegatorName, seal);
+  const res = await client.delegations().approve(delegatorName, seal);
+  const operation = await trackOperation(await res?.op?.(), "delegation.approve", {
+    wait: opts.wait ?? true,
+    meta: { delegator: delegatorName, seal },
+  });
+
+  if (req) await client.notifications().mark(req.note);
+  await appendAudit({ action: "delegation.approve", actor: delegatorName, target: delegate, detail: seal });
+  return { seal, operation };
+}
+
+/**
+ * Delegate side: refresh the delegator's key state so the agent sees the
+ * anchor and can complete the delegated inception.
+ */
+export async function refreshDelegator(delegatorPre: string, sn?: string) {
+  const client = getClient();
+  const op = await client.keyStates().query(delegatorPre, sn);
+  return trackOperation(op, "delegation.query", { wait: true, meta: { delegator: delegatorPre } });
+}
+
+/**
+ * Local trust hierarchy (test network): incepts `name` delegated from the
+ * local `delegatorName`, approves it on the delegator side and waits for the
+ * delegated inception to complete.
+ */
+export async function createDelegatedAid(name: string, delegatorName: string) {
+  const delpre = extractPrefix(await getAid(delegatorName));
+  if (!delpre) throw new ApiError("AID_NOT_FOUND", `delegator AID not found: ${delegatorName}`);
+
+  const created = await createAid(name, { transferable: true, delpre, wait: false });
+  const pre = extractPrefix(created);
+  if (!pre) throw new ApiError("KERIA_ERROR", `delegated inception returned no prefix for ${name}`);
+
+  await approveDelegation(delegatorName, pre);
+  await refreshDelegator(delpre);
+  if (created.operation && !created.operation.done) {
+    await trackOperation({ name: created.operation.name, done: false }, "aid.delegate", {
+      wait: true,
+      meta: { name, prefix: pre, delpre },
+    });
+  }
+
+  logger.info("[delegation] %s (%s) delegated from %s", name, pre, delegatorName);
+  return getAid(name);
+}
@@ -0,0 +1,75 @@
+// src/errors.ts
+
+// Stable error codes; clients branch on `code`, never on the message
+export const ERROR_STATUS = {
+  BAD_REQUEST: 400,
+  INVALID_JSON: 400,
+  VALIDATION_FAILED: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  TENANT_NOT_FOUND: 404,
+  AID_NOT_FOUND: 404,
+  CREDENTIAL_NOT_FOUND: 404,
+  OPERATION_NOT_FOUND: 404,
+  GROUP_REQUEST_NOT_FOUND: 404,
+  WITNESS_NOT_FOUND: 404,
+  CONTACT_NOT_FOUND: 404,
+  BINDING_NOT_FOUND: 404,
+  CHALLENGE_NOT_FOUND: 404,
+  JOB_NOT_FOUND: 404,
+  CHALLENGE_EXPIRED: 410,
+  CONFLICT: 409,
+  AID_EXISTS: 409,
+  AID_NOT_TRANSFERABLE: 409,
+  CREDENTIAL_REVOKED: 409,
+  REGISTRY_PENDING: 409,
+  INVALID_CREDENTIAL_DATA: 422,
+  INVALID_SIGNATURE: 422,
+  CREDENTIAL_UNVERIFIED: 422,
+  LEI_INVALID: 422,
+  LEI_REJECTED: 422,
+  INTERNAL: 500,
+  KERIA_ERROR: 502,
+  OPERATION_FAILED: 502,
+  REGISTRY_FAILED: 502,
+  SCHEMA_UNRESOLVABLE: 502,
+  KERIA_UNREACHABLE: 503,
+  WITNESS_UNAVAILABLE: 503,
+  GOLDEN_COPY_UNAVAILABLE: 503,
+  OPERATION_TIMEOUT: 504,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+// Body of every error response
+export type ErrorBody = { ok: false; code: ErrorCode; error: string; detail?: unknown };
+
+export class ApiError extends Error {
+  constructor(public code: ErrorCode, message: string, public detail?: unknown) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toBody(): ErrorBody {
+    return { ok: false, code: this.code, error: this.message, ...(this.detail !== undefined ? { detail: this.detail } : {}) };
+  }
+}
+
+const NET_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "EAI_AGAIN", "ETIMEDOUT", "EHOSTUNREACH", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_SOCKET"]);
+
+/** fetch()/undici failures that mean the agent could not be reached at all. */
+export function isNetworkError(e: any): boolean {
+  const code = e?.cause?.code ?? e?.code;
+  return NET_CODES.has(code) || (e instanceof TypeError && /fetch failed/i.test(e.message));
+}
+
+// signify-ts reports agent replies as "HTTP <METHOD> <path> - <status> <text> - <body>"
+export function keriaHttpStatus(e: any): number | null {
+  const m = /^HTTP \w+ \S+ - (\d{3})\b/.exec(String(e?.message ?? ""));
+  return m ? Number(m[1]) : null;
+}
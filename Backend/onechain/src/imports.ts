@@ -0,0 +1,101 @@
+// src/imports.ts
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { OOBI_BASE_URL, DEFAULT_TENANT, SCHEMA_QVI_SAID } from "./config.js";
+import { currentTenant } from "./tenants.js";
+import { resolveOobi } from "./contacts.js";
+import { parseCesr, toCesr, KEL_ILKS, type CesrMessage } from "./cesr.js";
+import { verifyPresentation, type Verdict } from "./verify.js";
+import { listAidsLocal, putImport, appendAudit } from "./store.js";
+import type { OpHandle } from "./operations.js";
+
+export type ImportOpts = {
+  said?: string;              // credential to import when the stream carries several tops
+  alias?: string;             // contact alias for the issuer (default import-<prefix>)
+  expectedLEI?: string;
+  expectedSchema?: string;     // default: the QVI credential schema
+};
+
+export type ImportResult = {
+  said: string;
+  verdict: Verdict;
+  kels: string[];             // prefixes whose KEL came with the stream
+  oobis: { prefix: string; oobi: string; operation: OpHandle | null; error?: string }[];
+};
+
+// KEL of every prefix in the stream, in sn order, as its own stream
+function kelsOf(messages: CesrMessage[]) {
+  const byPrefix = new Map<string, Map<number, CesrMessage>>();
+  for (const m of messages) {
+    if (m.proto !== "KERI" || !KEL_ILKS.includes(m.ked?.t)) continue;
+    const kel = byPrefix.get(m.ked.i) ?? new Map<number, CesrMessage>();
+    byPrefix.set(m.ked.i, kel);
+    kel.set(parseInt(m.ked.s, 16), m);
+  }
+  return Array.from(byPrefix, ([prefix, kel]) => {
+    const events = Array.from(kel).sort(([a], [b]) => a - b).map(([, m]) => m);
+    return { prefix, sn: events.length - 1, cesr: toCesr(events) };
+  });
+}
+
+// Where the agent fetches an imported KEL (see the public /oobi route in index.ts)
+function kelOobi(prefix: string): string {
+  const tenant = currentTenant().id;
+  return `${OOBI_BASE_URL}/oobi/${prefix}/controller${tenant === DEFAULT_TENANT ? "" : `?tenant=${encodeURIComponent(tenant)}`}`;
+}
+
+/**
+ * Imports a credential from a CESR stream (e.g. a QVI credential from an
+ * external GLEIF root). The stream must pass verifyPresentation; it is then
+ * kept for export and verification, and the foreign KELs it carries are
+ * resolved into the agent through OOBIs served by onechain. An imported
+ * credential held by a local AID can be the parent of its issuances (see
+ * requireHeld in issuance.ts).
+ */
+export async function importCredential(cesr: string, opts: ImportOpts = {}): Promise<ImportResult> {
+  const verdict = await verifyPresentation({
+    presentation: cesr,
+    said: opts.said,
+    expectedLEI: opts.expectedLEI,
+    expectedSchema: opts.expectedSchema ?? SCHEMA_QVI_SAID,
+  });
+  if (!verdict.verified) {
+    throw new ApiError("CREDENTIAL_UNVERIFIED", `credential ${verdict.said} did not verify`, { failures: verdict.failures });
+  }
+
+  const kels = kelsOf(parseCesr(cesr));
+  await putImport({
+    said: verdict.said,
+    schema: verdict.schema,
+    issuer: verdict.issuer,
+    ...(verdict.holder ? { holder: verdict.holder } : {}),
+    ...(verdict.lei ? { lei: verdict.lei } : {}),
+    cesr,
+    verdict,
+    imported: new Date().toISOString(),
+  }, kels);
+
+  const local = new Set((await listAidsLocal()).map((a) => a.prefix));
+  const oobis: ImportResult["oobis"] = [];
+  if (OOBI_BASE_URL) {
+    for (const { prefix } of kels.filter((k) => !local.has(k.prefix))) {
+      const oobi = kelOobi(prefix);
+      const alias = prefix === verdict.issuer && opts.alias ? opts.alias : `import-${prefix.slice(0, 8)}`;
+      try {
+        const { operation } = await resolveOobi(oobi, alias);
+        oobis.push({ prefix, oobi, operation });
+      } catch (e: any) {
+        // the import stands; the agent can resolve the OOBI later
+        oobis.push({ prefix, oobi, operation: null, error: e?.message ?? String(e) });
+      }
+    }
+  }
+
+  await appendAudit({
+    action: "credential.import",
+    target: verdict.said,
+    detail: { schema: verdict.schema, issuer: verdict.issuer, lei: verdict.lei, kels: kels.map((k) => k.prefix) },
+  });
+  logger.info("[cred.import] %s from %s (%d KELs)", verdict.said, verdict.issuer, kels.length);
+  return { said: verdict.said, verdict, kels: kels.map((k) => k.prefix), oobis };
+}
@@ -1,93 +1,93 @@
-import http from "node:http";
+import express from "express";
 import { logger } from "./logger.js";
-import { PORT, QVI_AID_NAME, QVI_LEI } from "./config.js";
+import { ApiError } from "./errors.js";
+import {
+  PORT,
+  RECONCILE_ON_START,
+  SCHEMA_QVI_SAID,
+  SCHEMA_LEGAL_ENTITY_SAID,
+  SCHEMA_OOR_AUTH_SAID,
+  SCHEMA_OOR_SAID,
+  SCHEMA_ECR_AUTH_SAID,
+  SCHEMA_ECR_SAID,
+  DEFAULT_TENANT,
+  GLEIF_GOLDEN_COPY_FILE,
+} from "./config.js";
 import { ensureBootStrictAndConnect } from "./signify.js";
-import { getAid, getOrCreateAid } from "./aid.js";
-import { issueQVI, issueLegalEntityVLEI, type VLEISubject } from "./issuance.js";
+import { assertSafePasscodes, loadTenants, listTenants, tenantContext, withTenant } from "./tenants.js";
+import { bootstrapKeys } from "./auth.js";
+import { reconcile } from "./reconcile.js";
+import { preloadSchemas } from "./schemas.js";
+import { requestScope, route, notFound, errorHandler } from "./middleware.js";
+import { getImportedKel } from "./store.js";
+import { router } from "./routes.js";
+import { startWitnessMonitor } from "./witnesses.js";
+import { loadWitnessPool } from "./witness-pool.js";
+import { importGoldenCopy } from "./lei.js";
+import { buildSpec, docsHtml } from "./openapi.js";
 
-function send(res: http.ServerResponse, code: number, body: any) {
-  res.statusCode = code;
-  res.setHeader("content-type", "application/json");
-  res.end(JSON.stringify(body));
-}
+const app = express();
+app.disable("x-powered-by");
 
-async function parseBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
-  const chunks: Buffer[] = [];
-  for await (const c of req) chunks.push(Buffer.from(c));
-  if (!chunks.length) return {};
-  try { return JSON.parse(Buffer.concat(chunks).toString("utf8")); }
-  catch { return {}; }
-}
+// body first: the tenant/principal scope must wrap the route handlers, not the body stream
+app.use(express.json({ limit: "1mb" }));
+app.use(express.text({ type: "text/csv", limit: "5mb" })); // batch uploads, see csvBody
 
-const server = http.createServer(async (req, res) => {
-  try {
-    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-    const method = (req.method ?? "GET").toUpperCase();
+// public: liveness for the container healthcheck (no KERIA round trip)
+app.get("/health", (_req, res) => res.json({ ok: true }));
 
-    if (method === "POST" && url.pathname === "/init") {
-      await ensureBootStrictAndConnect();
+// public: OpenAPI document and Swagger UI
+app.get("/openapi.json", (_req, res) => res.json(buildSpec()));
+app.get("/docs", (_req, res) => res.type("html").send(docsHtml("/openapi.json")));
 
-      const body = await parseBody(req);
-      const qviName = String((body?.qvi as any)?.name ?? QVI_AID_NAME);
-      const qviLei  = String((body?.qvi as any)?.lei  ?? QVI_LEI);
+// public: KELs that came with imported credentials, resolved by the agent as controller OOBIs;
+// an unknown ?tenant= reads as an unknown prefix so the route does not reveal which tenants exist
+app.get("/oobi/:pre/controller", route(async (req, res) => {
+  const id = typeof req.query.tenant === "string" ? req.query.tenant : DEFAULT_TENANT;
+  const kel = listTenants().includes(id) ? await withTenant(tenantContext(id), () => getImportedKel(req.params.pre)) : undefined;
+  if (!kel) throw new ApiError("NOT_FOUND", `no imported KEL for ${req.params.pre}`);
+  res.type("application/json+cesr").send(kel);
+}));
 
-      await getOrCreateAid(qviName, { transferable: true });
+// tenant from a "/t/:tenant/..." prefix or the tenant header
+app.use(["/t/:tenant", "/"], requestScope, router);
 
-      await issueQVI(qviName, qviName, { lei: qviLei });
+app.use(notFound);
+app.use(errorHandler);
 
-      return send(res, 200, { ok: true, qvi: qviName, lei: qviLei });
-    }
+try {
+  loadTenants();
+  loadWitnessPool();
+  assertSafePasscodes();
+  bootstrapKeys();
+} catch (e: any) {
+  logger.error("[onechain] %s", e?.message ?? String(e));
+  process.exit(1);
+}
 
-   // POST /aids/create  { name, transferable?, toad? }
-   if (method === "POST" && url.pathname === "/aids/create") {
-    await ensureBootStrictAndConnect();
-    const body = await parseBody(req);
-    const name = String(body?.name ?? "");
-    if (!name) return send(res, 400, { error: "name required" });
+app.listen(PORT, "0.0.0.0", () => {
+  logger.info("[onechain] listening on http://0.0.0.0:%d", PORT);
 
-    const transferable = body?.transferable !== undefined ? Boolean(body.transferable) : true;
-    const toad = body?.toad !== undefined ? Number(body.toad) : undefined;
-    const out = await getOrCreateAid(name, { transferable, toad });
-    return send(res, 200, { ok: true, aid: out });
-  }
+  startWitnessMonitor();
 
-  // GET /aids/:name
-  if (method === "GET" && url.pathname.startsWith("/aids/")) {
-    await ensureBootStrictAndConnect();
-    const name = decodeURIComponent(url.pathname.replace("/aids/", ""));
-    const a = await getAid(name);
-    if (!a) return send(res, 404, { error: "not found", detail: "" });
-    return send(res, 200, a);
+  if (GLEIF_GOLDEN_COPY_FILE) {
+    importGoldenCopy().catch((e: any) => logger.warn("[lei] golden copy import failed: %s", e?.message ?? String(e)));
   }
 
-  // POST /issue/vlei  { name, legalName, lei }
-  if (method === "POST" && url.pathname === "/issue/vlei") {
-    await ensureBootStrictAndConnect();
-    const body = await parseBody(req);
-    const name = String(body?.name ?? "");
-    const legalName = String(body?.legalName ?? "");
-    const lei = String(body?.lei ?? "");
-
-    if (!name || !legalName || !lei) {
-      return send(res, 400, { error: "missing fields", detail: "name, legalName, lei are required" });
-    }
-
-    // AID on demand (eth address can be used as name)
-    await getOrCreateAid(name, { transferable: true });
+  ensureBootStrictAndConnect()
+    .then(() => preloadSchemas([
+      SCHEMA_QVI_SAID,
+      SCHEMA_LEGAL_ENTITY_SAID,
+      SCHEMA_OOR_AUTH_SAID,
+      SCHEMA_OOR_SAID,
+      SCHEMA_ECR_AUTH_SAID,
+      SCHEMA_ECR_SAID,
+    ]))
+    .catch((e: any) => logger.warn("[schema] preload skipped: %s", e?.message ?? String(e)));
 
-    const subject: VLEISubject = { legalName, lei };
-    const out = await issueLegalEntityVLEI(QVI_AID_NAME, name, subject);
-    return send(res, 200, { ok: true, credential: out });
+  if (RECONCILE_ON_START !== "off") {
+    ensureBootStrictAndConnect()
+      .then(() => reconcile({ repair: RECONCILE_ON_START === "repair" }))
+      .catch((e: any) => logger.warn("[reconcile] startup run failed: %s", e?.message ?? String(e)));
   }
-      // Fallback
-      send(res, 404, { error: "not found", detail: "" });
-    } catch (e: any) {
-      logger.error(e?.stack ?? String(e));
-      send(res, 500, { error: e?.message ?? String(e) });
-    }
-  });
-  
-  server.listen(PORT, "0.0.0.0", () => {
-    logger.info("[onechain] listening on http://0.0.0.0:%d", PORT);
-  });
-  
\ No newline at end of file
+});
@@ -0,0 +1,181 @@
+// src/ipex.ts
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { getClient, waitOperation } from "./signify.js";
+import { getAid, extractPrefix } from "./aid.js";
+import { addExchange, getExchange, listExchanges, appendAudit, type ExchangeInfo } from "./store.js";
+import { IPEX_WAIT_TIMEOUT_MS } from "./config.js";
+
+const GRANT_ROUTE = "/exn/ipex/grant";
+const ADMIT_ROUTE = "/exn/ipex/admit";
+const NOTE_PAGE = 100;
+
+function keriNow() {
+  // KERI datetimes carry microseconds and an explicit offset
+  return new Date().toISOString().replace("Z", "000+00:00");
+}
+
+/**
+ * Sends an IPEX grant for a freshly issued credential. `issued` is the
+ * result of credentials().issue(); the issuance op is awaited first since
+ * the grant embeds the anchoring event.
+ */
+export async function grantIssued(
+  senderName: string,
+  recipientPrefix: string,
+  issued: any
+): Promise<ExchangeInfo> {
+  const client = getClient();
+  await waitOperation(issued?.op, "credential issuance", IPEX_WAIT_TIMEOUT_MS);
+
+  const datetime = keriNow();
+  const [grant, sigs, end] = await client.ipex().grant({
+    senderName,
+    recipient: recipientPrefix,
+    datetime,
+    acdc: issued.acdc,
+    anc: issued.anc,
+    iss: issued.iss,
+  });
+  const op = await client.ipex().submitGrant(senderName, grant, sigs, end, [recipientPrefix]);
+  await waitOperation(op, "ipex grant", IPEX_WAIT_TIMEOUT_MS);
+
+  const sender = extractPrefix(await getAid(senderName)) ?? senderName;
+  const x: ExchangeInfo = {
+    said: grant.sad.d,
+    credential: issued.acdc.sad.d,
+    route: "grant",
+    sender,
+    recipient: recipientPrefix,
+    time: datetime,
+  };
+  await addExchange(x);
+  await appendAudit({ action: "ipex.grant", actor: senderName, target: x.credential, detail: { exn: x.said, recipient: recipientPrefix } });
+
+  logger.info("[ipex.grant] %j", { credential: x.credential, exn: x.said, recipient: recipientPrefix });
+  return x;
+}
+
+// Every notification of the agent; list() without a range only returns the first page
+async function listNotes(client: any): Promise<any[]> {
+  const notes: any[] = [];
+  for (let start = 0; ; start += NOTE_PAGE) {
+    const r = await client.notifications().list(start, start + NOTE_PAGE - 1);
+    const page = Array.isArray(r) ? r : r?.notes ?? [];
+    notes.push(...page);
+    if (page.length < NOTE_PAGE || notes.length >= (r?.total ?? Infinity)) return notes;
+  }
+}
+
+async function listGrantNotes(client: any): Promise<any[]> {
+  return (await listNotes(client)).filter((n: any) => n?.a?.r === GRANT_ROUTE && !n?.r);
+}
+
+/**
+ * Admits pending grants addressed to a managed holder AID. With `grantSaid`
+ * only that grant is admitted; otherwise every unread grant for the holder.
+ */
+export async function admitGrants(holderName: string, grantSaid?: string): Promise<ExchangeInfo[]> {
+  const client = getClient();
+  const holder = await getAid(holderName);
+  const holderPre = extractPrefix(holder);
+  if (!holderPre) throw new ApiError("AID_NOT_FOUND", `holder AID not found: ${holderName}`);
+
+  const notes = await listGrantNotes(client);
+  const out: ExchangeInfo[] = [];
+
+  for (const note of notes) {
+    if (grantSaid && note.a.d !== grantSaid) continue;
+
+    const exn = (await client.exchanges().get(note.a.d))?.exn;
+    const recipient = exn?.rp ?? exn?.a?.i;
+    if (recipient !== holderPre) continue;
+
+    const datetime = keriNow();
+    const [admit, sigs, end] = await client.ipex().admit({
+      senderName: holderName,
+      recipient: exn.i,
+      grantSaid: exn.d,
+      message: "",
+      datetime,
+    });
+    const op = await client.ipex().submitAdmit(holderName, admit, sigs, end, [exn.i]);
+    await waitOperation(op, "ipex admit", IPEX_WAIT_TIMEOUT_MS);
+    await client.notifications().mark(note.i);
+
+    const x: ExchangeInfo = {
+      said: admit.sad.d,
+      credential: exn?.e?.acdc?.d ?? "",
+      route: "admit",
+      sender: holderPre,
+      recipient: exn.i,
+      prior: exn.d,
+      time: datetime,
+    };
+    await addExchange(x);
+    await appendAudit({ action: "ipex.admit", actor: holderName, target: x.credential, detail: { exn: x.said, grant: exn.d } });
+    logger.info("[ipex.admit] %j", { holder: holderName, credential: x.credential, grant: exn.d });
+    out.push(x);
+  }
+
+  if (!out.length) logger.info("[ipex.admit] no pending grants for %s", holderName);
+  return out;
+}
+
+export type IpexState = {
+  credential: string;
+  state: "none" | "granted" | "admitted";
+  exchanges: ExchangeInfo[];
+};
+
+/**
+ * Admits the agent received for grants we sent (holders admitting from their
+ * own wallet) that are not recorded yet. Only an admit sent by the grant's
+ * recipient counts. With record=true each one is stored like our own
+ * exchanges and its notification marked read; reconcile() drives this.
+ */
+export async function receivedAdmits({ record = false } = {}): Promise<ExchangeInfo[]> {
+  const client = getClient();
+  const out: ExchangeInfo[] = [];
+  for (const note of (await listNotes(client)).filter((n: any) => n?.a?.r === ADMIT_ROUTE && !n?.r)) {
+    const exn = (await client.exchanges().get(note.a.d))?.exn;
+    if (!exn?.p || (await getExchange(exn.d))) continue;
+    const grant = await getExchange(exn.p);
+    if (grant?.route !== "grant") continue;
+    if (exn.i !== grant.recipient) {
+      logger.warn("[ipex.admit] %j", { grant: grant.said, from: exn.i, recipient: grant.recipient, ignored: "not the grant's recipient" });
+      continue;
+    }
+    const x: ExchangeInfo = {
+      said: exn.d,
+      credential: grant.credential,
+      route: "admit",
+      sender: exn.i,
+      recipient: grant.sender,
+      prior: grant.said,
+      time: exn.dt ?? keriNow(),
+    };
+    if (record) {
+      await addExchange(x);
+      await client.notifications().mark(note.i);
+      logger.info("[ipex.admit] %j", { credential: x.credential, grant: grant.said, from: x.sender, received: true });
+    }
+    out.push(x);
+  }
+  return out;
+}
+
+/**
+ * Grant/admit state of a credential from the recorded exchanges. Admits
+ * holders send from their own wallet show up once reconcile() has recorded
+ * them.
+ */
+export async function getIpexState(credential: string): Promise<IpexState> {
+  const exchanges = await listExchanges(credential);
+  const state = exchanges.some((x) => x.route === "admit")
+    ? "admitted"
+    : exchanges.some((x) => x.route === "grant")
+      ? "granted"
+      : "none";
+  return { credential, state, exchanges };
+}
@@ -1,55 +1,254 @@
 // src/issuance.ts
-import { SCHEMA_QVI_SAID, SCHEMA_LEGAL_ENTITY_SAID } from "./config.js";
+import signify from "signify-ts";
+import {
+  SCHEMA_QVI_SAID,
+  SCHEMA_LEGAL_ENTITY_SAID,
+  SCHEMA_OOR_AUTH_SAID,
+  SCHEMA_OOR_SAID,
+  SCHEMA_ECR_AUTH_SAID,
+  SCHEMA_ECR_SAID,
+  QVI_AID_NAME,
+} from "./config.js";
 import { logger } from "./logger.js";
-import { getAid } from "./aid.js";
+import { ApiError } from "./errors.js";
+import { getAid, getOrCreateAid, extractPrefix } from "./aid.js";
 import { getClient } from "./signify.js";
 import { ensureRegistry } from "./registry.js";
+import { addCredential, appendAudit, listImportsHeld, type LeiMatch } from "./store.js";
+import { grantIssued } from "./ipex.js";
+import { validateSubject } from "./schemas.js";
+import { trackOperation } from "./operations.js";
+import { isGroup, proposeIssuance } from "./multisig.js";
+import { currentPrincipal } from "./auth.js";
+import { currentTenant, inTenant, withTenant, type TenantContext } from "./tenants.js";
+import { recipientPrefix, resolveOobi } from "./contacts.js";
+import { vleiHash } from "./credentials.js";
+import { checkLei, checkLeiFormat } from "./lei.js";
+import { verifyPresentation } from "./verify.js";
+import { parseCesr } from "./cesr.js";
+
+const { Saider, Salter } = signify;
+
+export function credentialSaid(out: any): string | undefined {
+  return out?.acdc?.sad?.d ?? out?.acdc?.ked?.d ?? out?.sad?.d ?? undefined;
+}
 
 export type QVISubject = { lei: string; dt?: string };
 export type VLEISubject = { legalName: string; lei: string; dt?: string };
+export type IssueOpts = {
+  grant?: boolean; // deliver to the holder via IPEX (implies waiting for issuance)
+  wait?: boolean;  // wait until the credential is anchored
+};
+export type OORSubject = { personLegalName: string; officialRole: string; dt?: string };
+export type ECRSubject = { personLegalName: string; engagementContextRole: string; dt?: string };
 
-export async function issueQVI(
-  issuerName: string,
-  recipientName: string,
-  subj: QVISubject
-) {
+// TEL view of a credential: "iss" -> issued, "rev" -> revoked
+export type CredentialStatus = {
+  said: string;
+  registry: string;
+  status: "issued" | "revoked";
+  sn: number;
+  issuedAt: string | null;
+  revokedAt: string | null;
+};
+
+// vLEI EGF rule texts, as published with the GLEIF vLEI schemas
+const USAGE_DISCLAIMER =
+  "Usage of a valid, unexpired, and non-revoked vLEI Credential, as defined in the associated Ecosystem Governance Framework, does not assert that the Legal Entity is trustworthy, honest, reputable in its business dealings, safe to do business with, or compliant with any laws or that an implied or expressly intended purpose will be fulfilled.";
+const ISSUANCE_DISCLAIMER =
+  "All information in a valid, unexpired, and non-revoked vLEI Credential, as defined in the associated Ecosystem Governance Framework, is accurate as of the date the validation process was complete. The vLEI Credential has been issued to the legal entity or person named in the vLEI Credential as the subject; and the qualified vLEI Issuer exercised reasonable care to perform the validation process set forth in the vLEI Ecosystem Governance Framework.";
+const PRIVACY_DISCLAIMER =
+  "It is the sole responsibility of Holders as Issuees of an ECR vLEI Credential to present that Credential in a privacy-preserving manner using the mechanisms provided in the Issuance and Presentation Exchange (IPEX) protocol specification and the Authentic Chained Data Container (ACDC) specification. https://github.com/WebOfTrust/IETF-IPEX and https://github.com/trustoverip/tswg-acdc-specification.";
+
+function saidify(block: Record<string, unknown>) {
+  return Saider.saidify({ d: "", ...block })[1];
+}
+
+function rules(withPrivacy = false) {
+  return saidify({
+    usageDisclaimer: { l: USAGE_DISCLAIMER },
+    issuanceDisclaimer: { l: ISSUANCE_DISCLAIMER },
+    ...(withPrivacy ? { privacyDisclaimer: { l: PRIVACY_DISCLAIMER } } : {}),
+  });
+}
+
+type Edge = { n: string; s: string; o?: "I2I" | "NI2I" };
+
+type IssueArgs = {
+  kind: string;           // log tag, e.g. "qvi", "vlei", "oor"
+  issuerName: string;
+  holderName: string;
+  schema: string;
+  data: Record<string, unknown>;
+  edges?: Record<string, Edge>;
+  withPrivacy?: boolean;  // ECR: private attributes + privacy disclaimer
+  wait?: boolean;
+  leiRecord?: LeiMatch | null; // GLEIF golden-copy record the LEI was checked against
+};
+
+// Issues and revocations anchor with an ixn whose sn the client reads from the
+// issuer's state, and the first one may create its registry: one at a time per issuer
+const anchoring = new Map<string, Promise<unknown>>();
+
+function byIssuer<T>(issuerName: string, fn: () => Promise<T>): Promise<T> {
+  const key = `${currentTenant().id}/${issuerName}`;
+  const turn = (anchoring.get(key) ?? Promise.resolve()).then(fn);
+  const tail = turn.catch(() => undefined);
+  anchoring.set(key, tail);
+  void tail.then(() => {
+    if (anchoring.get(key) === tail) anchoring.delete(key);
+  });
+  return turn;
+}
+
+// Shared issue path: registry of the issuer, edges/rules, store + audit record.
+async function issueCredential(a: IssueArgs) {
   const client = getClient();
-  const iss = await getAid(issuerName);
-  const rec = await getAid(recipientName);
-  if (!iss || !rec) throw new Error("issuer or recipient AID missing");
+  const iss = await getAid(a.issuerName);
+  const holder = await recipientPrefix(a.holderName);
+  if (!iss || !holder) throw new ApiError("AID_NOT_FOUND", "issuer or holder AID missing", { issuer: a.issuerName, holder: a.holderName });
+
+  const subject = {
+    i: holder,
+    ...(a.withPrivacy ? { u: new Salter({}).qb64 } : {}),
+    ...a.data,
+  };
+  await validateSubject(a.schema, subject);
 
-  const registry = await ensureRegistry();
+  const out = await byIssuer(a.issuerName, async () => {
+    const registry = await ensureRegistry(a.issuerName);
+    const out = await client.credentials().issue(a.issuerName, {
+      ri: registry,
+      s: a.schema,
+      ...(a.withPrivacy ? { u: new Salter({}).qb64 } : {}),
+      a: subject,
+      ...(a.edges ? { e: saidify(a.edges) } : {}),
+      r: rules(a.withPrivacy),
+    });
+    // group issuers: the credential anchors once enough members co-sign
+    if (isGroup(iss)) await proposeIssuance(a.issuerName, out);
+    return out;
+  });
 
-  const data = { LEI: subj.lei, dt: subj.dt ?? new Date().toISOString() };
+  logger.info(`[issue.${a.kind}] %j`, {
+    schema: a.schema,
+    issuer: a.issuerName,
+    holder: a.holderName,
+    data: a.data,
+  });
+  await addCredential({
+    said: credentialSaid(out),
+    type: "vlei",
+    schema: a.schema,
+    issuer: a.issuerName,
+    holder: a.holderName,
+    subject: a.data,
+    time: String(a.data.dt),
+    issuedBy: currentPrincipal()?.id,
+    ...(a.leiRecord ? { leiRecord: a.leiRecord } : {}),
+  });
+  await appendAudit({ action: "issue", actor: a.issuerName, target: credentialSaid(out), detail: { holder: a.holderName, schema: a.schema } });
 
-  const out = await client.credentials().issue({
-    schema: SCHEMA_QVI_SAID,
-    issuer: (iss as any).prefix ?? (iss as any).pre,
-    recipient: (rec as any).prefix ?? (rec as any).pre,
-    data,
-    registry,
+  const operation = await trackOperation(out?.op, "credential.issue", {
+    wait: a.wait,
+    meta: { said: credentialSaid(out), kind: a.kind },
   });
+  return {
+    ...out,
+    vleiHash: vleiHash(credentialSaid(out), a.data.LEI as string | undefined),
+    ...(a.leiRecord ? { leiRecord: a.leiRecord } : {}),
+    operation,
+  };
+}
+
+// Chained issuance needs the parent credential anchored in the TEL first.
+async function issueAndWait(a: IssueArgs) {
+  return issueCredential({ ...a, wait: true });
+}
+
+// Latest non-revoked credential of `schema` held by `holderPre`.
+async function findHeld(holderPre: string, schema: string) {
+  const client = getClient();
+  const list = await client.credentials().list({ filter: { "-s": schema, "-a-i": holderPre } });
+  const live = (Array.isArray(list) ? list : []).filter((c: any) => c?.status?.et !== "rev");
+  return live.length ? live[live.length - 1] : null;
+}
+
+// Latest imported credential (imports.ts) of `schema` held by `holderPre` that still verifies,
+// e.g. a QVI credential from an external GLEIF root; shaped like an agent credential ({ sad })
+async function findImported(holderPre: string, schema: string) {
+  for (const i of (await listImportsHeld(holderPre, schema)).reverse()) {
+    const verdict = await verifyPresentation({ presentation: i.cesr, said: i.said, expectedSchema: schema });
+    if (verdict.verified) return { sad: parseCesr(i.cesr).find((m) => m.proto === "ACDC" && m.ked.d === i.said)!.ked };
+    logger.warn("[issue] imported %s no longer verifies: %j", i.said, verdict.failures.map((f) => f.code));
+  }
+  return null;
+}
+
+async function requireHeld(holderName: string, schema: string, what: string) {
+  const pre = extractPrefix(await getAid(holderName));
+  if (!pre) throw new ApiError("AID_NOT_FOUND", `AID not found: ${holderName}`);
+  const c = (await findHeld(pre, schema)) ?? (await findImported(pre, schema));
+  if (!c) throw new ApiError("CREDENTIAL_NOT_FOUND", `${holderName} holds no ${what} credential`);
+  return c;
+}
+
+/**
+ * Recipient `name`: a wallet OOBI resolved as contact `name`, an existing AID
+ * or contact, else a new local AID. `created` tells whether the AID is new.
+ */
+export async function ensureRecipient(
+  name: string,
+  oobi?: string,
+  tenant: TenantContext = currentTenant()
+): Promise<{ prefix: string | null; created: boolean }> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => ensureRecipient(name, oobi, tenant));
+  if (oobi) {
+    const { prefix } = await resolveOobi(oobi, name, true);
+    return { prefix, created: false };
+  }
+  const known = await recipientPrefix(name);
+  if (known) return { prefix: known, created: false };
+  return { prefix: extractPrefix(await getOrCreateAid(name, { transferable: true })), created: true };
+}
+
+async function deliver(out: any, issuerName: string, holderName: string, opts: IssueOpts) {
+  if (!opts.grant) return out;
+  const holder = (await recipientPrefix(holderName)) as string;
+  const grant = await grantIssued(issuerName, holder, out);
+  return { ...out, grant };
+}
 
-  logger.info("[issue.qvi] %j", {
+export async function issueQVI(
+  issuerName: string,
+  recipientName: string,
+  subj: QVISubject,
+  tenant: TenantContext = currentTenant()
+): Promise<any> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => issueQVI(issuerName, recipientName, subj, tenant));
+  checkLeiFormat(subj.lei);
+  const data = { LEI: subj.lei, dt: subj.dt ?? new Date().toISOString() };
+  return issueCredential({
+    kind: "qvi",
+    issuerName,
+    holderName: recipientName,
     schema: SCHEMA_QVI_SAID,
-    issuer: issuerName,
-    recipient: recipientName,
     data,
+    wait: true,
   });
-  return out;
 }
 
+// LE credential, chained to the QVI credential held by the issuer; the LEI must pass checkLei.
 export async function issueLegalEntityVLEI(
   qviIssuerName: string,
   holderName: string,
-  subj: VLEISubject
-) {
-  const client = getClient();
-  const iss = await getAid(qviIssuerName);
-  const rec = await getAid(holderName);
-  if (!iss || !rec) throw new Error("issuer or holder AID missing");
-
-  const registry = await ensureRegistry();
+  subj: VLEISubject,
+  opts: IssueOpts = {},
+  tenant: TenantContext = currentTenant()
+): Promise<any> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => issueLegalEntityVLEI(qviIssuerName, holderName, subj, opts, tenant));
+  const leiRecord = await checkLei(subj.lei, subj.legalName);
+  const qvi = await requireHeld(qviIssuerName, SCHEMA_QVI_SAID, "QVI");
 
   const data = {
     legalName: subj.legalName,
@@ -57,19 +256,155 @@ export async function issueLegalEntityVLEI(
     dt: subj.dt ?? new Date().toISOString(),
   };
 
-  const out = await client.credentials().issue({
+  const out = await issueCredential({
+    kind: "vlei",
+    issuerName: qviIssuerName,
+    holderName,
     schema: SCHEMA_LEGAL_ENTITY_SAID,
-    issuer: (iss as any).prefix ?? (iss as any).pre,
-    recipient: (rec as any).prefix ?? (rec as any).pre,
     data,
-    registry,
+    edges: { qvi: { n: qvi.sad.d, s: SCHEMA_QVI_SAID } },
+    wait: opts.wait,
+    leiRecord,
   });
+  return deliver(out, qviIssuerName, holderName, opts);
+}
 
-  logger.info("[issue.vlei] %j", {
-    schema: SCHEMA_LEGAL_ENTITY_SAID,
-    issuer: qviIssuerName,
-    holder: holderName,
-    data,
+/**
+ * OOR chain: the LE authorizes the QVI (OOR-Auth, edge -> LE credential), then
+ * the QVI issues the OOR credential to the person (edge -> OOR-Auth, I2I).
+ */
+export async function issueOOR(
+  leName: string,
+  personName: string,
+  subj: OORSubject,
+  qviName: string = QVI_AID_NAME,
+  opts: IssueOpts = {},
+  tenant: TenantContext = currentTenant()
+): Promise<any> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => issueOOR(leName, personName, subj, qviName, opts, tenant));
+  const le = await requireHeld(leName, SCHEMA_LEGAL_ENTITY_SAID, "Legal Entity");
+  const person = await recipientPrefix(personName);
+  if (!person) throw new ApiError("AID_NOT_FOUND", `AID not found: ${personName}`);
+  const dt = subj.dt ?? new Date().toISOString();
+  const LEI = le.sad.a.LEI;
+
+  const auth = await issueAndWait({
+    kind: "oor-auth",
+    issuerName: leName,
+    holderName: qviName,
+    schema: SCHEMA_OOR_AUTH_SAID,
+    data: { AID: person, LEI, personLegalName: subj.personLegalName, officialRole: subj.officialRole, dt },
+    edges: { le: { n: le.sad.d, s: SCHEMA_LEGAL_ENTITY_SAID } },
+  });
+
+  const out = await issueCredential({
+    kind: "oor",
+    issuerName: qviName,
+    holderName: personName,
+    schema: SCHEMA_OOR_SAID,
+    data: { LEI, personLegalName: subj.personLegalName, officialRole: subj.officialRole, dt },
+    edges: { auth: { n: credentialSaid(auth) as string, s: SCHEMA_OOR_AUTH_SAID, o: "I2I" } },
+    wait: opts.wait,
+  });
+  return { auth: credentialSaid(auth), ...(await deliver(out, qviName, personName, opts)) };
+}
+
+/** ECR chain, same shape as OOR; ECR credentials carry privacy salts and the privacy disclaimer. */
+export async function issueECR(
+  leName: string,
+  personName: string,
+  subj: ECRSubject,
+  qviName: string = QVI_AID_NAME,
+  opts: IssueOpts = {},
+  tenant: TenantContext = currentTenant()
+): Promise<any> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => issueECR(leName, personName, subj, qviName, opts, tenant));
+  const le = await requireHeld(leName, SCHEMA_LEGAL_ENTITY_SAID, "Legal Entity");
+  const person = await recipientPrefix(personName);
+  if (!person) throw new ApiError("AID_NOT_FOUND", `AID not found: ${personName}`);
+  const dt = subj.dt ?? new Date().toISOString();
+  const LEI = le.sad.a.LEI;
+
+  const auth = await issueAndWait({
+    kind: "ecr-auth",
+    issuerName: leName,
+    holderName: qviName,
+    schema: SCHEMA_ECR_AUTH_SAID,
+    data: { AID: person, LEI, personLegalName: subj.personLegalName, engagementContextRole: subj.engagementContextRole, dt },
+    edges: { le: { n: le.sad.d, s: SCHEMA_LEGAL_ENTITY_SAID } },
+    withPrivacy: true,
   });
-  return out;
-}
\ No newline at end of file
+
+  const out = await issueCredential({
+    kind: "ecr",
+    issuerName: qviName,
+    holderName: personName,
+    schema: SCHEMA_ECR_SAID,
+    data: { LEI, personLegalName: subj.personLegalName, engagementContextRole: subj.engagementContextRole, dt },
+    edges: { auth: { n: credentialSaid(auth) as string, s: SCHEMA_ECR_AUTH_SAID, o: "I2I" } },
+    withPrivacy: true,
+    wait: opts.wait,
+  });
+  return { auth: credentialSaid(auth), ...(await deliver(out, qviName, personName, opts)) };
+}
+
+export async function getCredential(said: string, tenant: TenantContext = currentTenant()): Promise<any | null> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => getCredential(said, tenant));
+  const client = getClient();
+  try {
+    return await client.credentials().get(said);
+  } catch (e: any) {
+    logger.debug("[cred.get] %s not found (%s)", said, e?.message ?? String(e));
+    return null;
+  }
+}
+
+export async function getCredentialStatus(said: string, tenant: TenantContext = currentTenant()): Promise<CredentialStatus | null> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => getCredentialStatus(said, tenant));
+  const client = getClient();
+  const cred = await getCredential(said);
+  if (!cred) return null;
+
+  const registry = cred?.sad?.ri ?? (await ensureRegistry());
+  const state = await client.credentials().state(registry, said);
+  const revoked = state?.et === "rev" || state?.et === "brv";
+
+  return {
+    said,
+    registry,
+    status: revoked ? "revoked" : "issued",
+    sn: parseInt(String(state?.s ?? "0"), 16),
+    issuedAt: cred?.iss?.dt ?? cred?.sad?.a?.dt ?? null,
+    revokedAt: revoked ? state?.dt ?? null : null,
+  };
+}
+
+// Revokes through the issuer's registry (see ensureRegistry). Returns null
+// when the credential is unknown to the issuer's agent.
+export async function revokeCredential(
+  said: string,
+  issuerName: string = QVI_AID_NAME,
+  dt?: string,
+  wait = false,
+  tenant: TenantContext = currentTenant()
+): Promise<any> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => revokeCredential(said, issuerName, dt, wait, tenant));
+  const client = getClient();
+  const cred = await getCredential(said);
+  if (!cred) return null;
+
+  const { registry, out } = await byIssuer(issuerName, async () => {
+    const registry = await ensureRegistry(issuerName);
+    const ri = cred?.sad?.ri;
+    if (ri && ri !== registry) {
+      throw new ApiError("CONFLICT", `credential ${said} is not in registry ${registry}`, { ri });
+    }
+    return { registry, out: await client.credentials().revoke(issuerName, said, dt) };
+  });
+
+  logger.info("[revoke] %j", { said, issuer: issuerName, registry });
+  await appendAudit({ action: "revoke", actor: issuerName, target: said, detail: { registry } });
+
+  const operation = await trackOperation(out?.op, "credential.revoke", { wait, meta: { said } });
+  return { ...out, operation };
+}
@@ -0,0 +1,25 @@
+// src/jobs.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ApiError } from "./errors.js";
+import { createVleiBatch } from "./jobs.js";
+
+const OPTS = { issuer: "qvi", grant: false, concurrency: 2 };
+const TENANT = { id: "jobs-test", bran: "" };
+
+test("a batch with bad LEIs or duplicate names is rejected before any row runs", async () => {
+  const rows = [
+    { name: "acme", legalName: "Acme", lei: "5493001KJTIIGC8Y1R13" },
+    { name: "beta", legalName: "Beta", lei: "549300" },
+    { name: "acme", legalName: "Acme again", lei: "5493001KJTIIGC8Y1R14" },
+  ];
+  await assert.rejects(createVleiBatch(rows, OPTS, TENANT), (e: unknown) => {
+    assert.ok(e instanceof ApiError);
+    assert.equal(e.code, "VALIDATION_FAILED");
+    assert.deepEqual(
+      (e.detail as { errors: { field: string }[] }).errors.map((x) => x.field),
+      ["2.name", "0.lei", "1.lei", "2.lei"]
+    );
+    return true;
+  });
+});
@@ -0,0 +1,228 @@
+// src/jobs.ts
+import { randomUUID } from "node:crypto";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { SCHEMA_LEGAL_ENTITY_SAID } from "./config.js";
+import { currentTenant, inTenant, withTenant, type TenantContext } from "./tenants.js";
+import { currentPrincipal } from "./auth.js";
+import { toApiError } from "./middleware.js";
+import { issueLegalEntityVLEI, ensureRecipient, credentialSaid } from "./issuance.js";
+import { listCredentials, MAX_PAGE_SIZE } from "./credentials.js";
+import { checkLei } from "./lei.js";
+import {
+  putJob,
+  getJobLocal,
+  setJobStatus,
+  listJobRows,
+  updateJobRow,
+  appendAudit,
+  type JobInfo,
+  type JobRow,
+  type JobRowStatus,
+} from "./store.js";
+
+export type VleiBatchRow = { name: string; legalName: string; lei: string; oobi?: string };
+export type VleiBatchOpts = { issuer: string; grant: boolean; concurrency: number };
+
+export type JobView = JobInfo & { total: number; counts: Record<JobRowStatus, number>; rows: JobRow[] };
+
+// Jobs this process is working on, per tenant; a stored "running" job missing here was cut off by a restart
+const running = new Set<string>();
+
+function runKey(tenant: TenantContext, id: string) {
+  return `${tenant.id}/${id}`;
+}
+
+// Rows left pending/running by a previous process fail, so they can be retried
+async function settle(job: JobInfo, rows: JobRow[]): Promise<boolean> {
+  if (job.status !== "running" || running.has(runKey(currentTenant(), job.id))) return false;
+  for (const r of rows.filter((r) => r.status === "pending" || r.status === "running")) {
+    await updateJobRow(job.id, r.index, {
+      status: "failed",
+      error: { code: "INTERRUPTED", message: "onechain stopped before the row finished; retry the job" },
+    });
+  }
+  await setJobStatus(job.id, "failed");
+  logger.warn("[job] %s was interrupted", job.id);
+  return true;
+}
+
+/** A job with its per-row status; null when the id is unknown. */
+export async function getJob(id: string): Promise<JobView | null> {
+  let job = await getJobLocal(id);
+  if (!job) return null;
+  let rows = await listJobRows(id);
+  if (await settle(job, rows)) {
+    job = (await getJobLocal(id))!;
+    rows = await listJobRows(id);
+  }
+  const counts: Record<JobRowStatus, number> = { pending: 0, running: 0, done: 0, failed: 0 };
+  for (const r of rows) counts[r.status]++;
+  return { ...job, total: rows.length, counts, rows };
+}
+
+// Newest live LE credential for `lei` held by `holder`
+async function issuedTo(holder: string, lei: string) {
+  const { items } = await listCredentials({ holder, lei, schema: SCHEMA_LEGAL_ENTITY_SAID, limit: MAX_PAGE_SIZE });
+  return items.filter((c) => c.status !== "rev" && c.status !== "brv").pop() ?? null;
+}
+
+async function failRow(job: JobInfo, row: JobRow, e: any) {
+  const err = toApiError(e);
+  await updateJobRow(job.id, row.index, {
+    status: "failed",
+    error: {
+      code: err.code,
+      message: err.code === "INTERNAL" ? e?.message ?? String(e) : err.message,
+      ...(err.detail !== undefined ? { detail: err.detail } : {}),
+    },
+  });
+  logger.warn("[job] %s row %d (%s) failed: %s", job.id, row.index, (row.input as VleiBatchRow).name, err.message);
+}
+
+// Holder AID of a row (created, or resolved from its OOBI); null when the row failed
+async function recipientRow(tenant: TenantContext, job: JobInfo, row: JobRow): Promise<{ prefix: string | null } | null> {
+  const input = row.input as VleiBatchRow;
+  await updateJobRow(job.id, row.index, { status: "running", attempts: row.attempts + 1 });
+  try {
+    await checkLei(input.lei, input.legalName); // a rejected LEI gets no holder AID
+    const { prefix, created } = await ensureRecipient(input.name, input.oobi, tenant);
+    await updateJobRow(job.id, row.index, { ...(prefix ? { aid: prefix } : {}), aidCreated: row.aidCreated || created });
+    return { prefix };
+  } catch (e: any) {
+    await failRow(job, row, e);
+    return null;
+  }
+}
+
+async function issueRow(tenant: TenantContext, job: JobInfo, row: JobRow, prefix: string | null) {
+  const input = row.input as VleiBatchRow;
+  const opts = job.options as VleiBatchOpts;
+  try {
+    // a retried row may have been issued before it failed (e.g. grant or anchoring timeout): do not issue twice
+    const earlier = row.attempts && prefix ? await issuedTo(prefix, input.lei) : null;
+    if (earlier) {
+      await updateJobRow(job.id, row.index, { status: "done", said: earlier.said, vleiHash: earlier.vleiHash ?? undefined, error: undefined });
+      return;
+    }
+
+    // a row is done once its credential is anchored; the wait runs outside the issuer's queue
+    const out = await issueLegalEntityVLEI(opts.issuer, input.name, { legalName: input.legalName, lei: input.lei }, {
+      grant: opts.grant,
+      wait: true,
+    }, tenant);
+    await updateJobRow(job.id, row.index, { status: "done", said: credentialSaid(out), vleiHash: out.vleiHash ?? undefined, error: undefined });
+  } catch (e: any) {
+    await failRow(job, row, e);
+  }
+}
+
+// Resolves `rows` holders with at most options.concurrency in flight; each row's issuance then
+// queues behind the issuer's others (see issueCredential). Resolves when all rows are settled.
+// Runs as `tenant` from here on, whatever scope the request that started it had.
+function start(tenant: TenantContext, job: JobInfo, rows: JobRow[]): Promise<void> {
+  const key = runKey(tenant, job.id);
+  running.add(key);
+  const run = async () => {
+    await setJobStatus(job.id, "running");
+    let next = 0;
+    const issuing: Promise<void>[] = [];
+    const worker = async () => {
+      while (next < rows.length) {
+        const row = rows[next++];
+        const holder = await recipientRow(tenant, job, row);
+        if (holder) issuing.push(issueRow(tenant, job, row, holder.prefix));
+      }
+    };
+    const width = Math.max(1, Math.min((job.options as VleiBatchOpts).concurrency, rows.length));
+    await Promise.all(Array.from({ length: width }, worker));
+    await Promise.all(issuing);
+
+    const failed = (await listJobRows(job.id)).filter((r) => r.status === "failed").length;
+    await setJobStatus(job.id, failed ? "failed" : "done");
+    logger.info("[job] %s finished: %d rows, %d failed", job.id, rows.length, failed);
+  };
+  return withTenant(tenant, run)
+    .catch((e: any) => logger.error("[job] %s aborted: %s", job.id, e?.stack ?? String(e)))
+    .finally(() => running.delete(key));
+}
+
+// Rows whose LEI is malformed or not a live registration; other failures (GLEIF down) are thrown
+async function leiErrors(rows: VleiBatchRow[]) {
+  const errors: { field: string; message: string }[] = [];
+  for (const [i, r] of rows.entries()) {
+    try {
+      await checkLei(r.lei, r.legalName);
+    } catch (e: any) {
+      if (!(e instanceof ApiError) || (e.code !== "LEI_INVALID" && e.code !== "LEI_REJECTED")) throw e;
+      errors.push({ field: `${i}.lei`, message: e.message });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Starts a Legal Entity vLEI batch: one row per holder, issued in the
+ * background; holder AIDs are set up with bounded concurrency, issuances
+ * go one at a time per issuer. Rows were schema-checked by the
+ * route; holder names must also be unique within the batch and every
+ * LEI must pass checkLei before the job is stored, else the whole batch
+ * is rejected with per-row errors. `done` resolves when every row is
+ * settled.
+ */
+export async function createVleiBatch(
+  rows: VleiBatchRow[],
+  opts: VleiBatchOpts,
+  tenant: TenantContext = currentTenant()
+): Promise<{ job: JobView; done: Promise<void> }> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => createVleiBatch(rows, opts, tenant));
+  const first = new Map<string, number>();
+  const dupes = rows.flatMap((r, i) => {
+    const at = first.get(r.name);
+    if (at === undefined) first.set(r.name, i);
+    return at === undefined ? [] : [{ field: `${i}.name`, message: `duplicate of row ${at}` }];
+  });
+  const errors = [...dupes, ...(await leiErrors(rows))];
+  if (errors.length) throw new ApiError("VALIDATION_FAILED", "invalid request body", { in: "body", errors });
+
+  const now = new Date().toISOString();
+  const job: JobInfo = {
+    id: randomUUID(),
+    kind: "issue.vlei",
+    status: "running",
+    options: opts,
+    ...(currentPrincipal()?.id ? { principal: currentPrincipal()!.id } : {}),
+    created: now,
+    updated: now,
+  };
+  await putJob(job, rows);
+  await appendAudit({ action: "job.create", actor: opts.issuer, target: job.id, detail: { kind: job.kind, rows: rows.length } });
+  logger.info("[job] %s: %d vLEI rows, concurrency %d", job.id, rows.length, opts.concurrency);
+
+  const done = start(tenant, job, await listJobRows(job.id));
+  return { job: (await getJob(job.id))!, done };
+}
+
+/** Re-runs the failed rows of a finished job; done rows are left alone. */
+export async function retryJob(
+  id: string,
+  concurrency?: number,
+  tenant: TenantContext = currentTenant()
+): Promise<{ job: JobView; retried: number; done: Promise<void> }> {
+  if (!inTenant(tenant)) return withTenant(tenant, () => retryJob(id, concurrency, tenant));
+  const current = await getJob(id);
+  if (!current) throw new ApiError("JOB_NOT_FOUND", `job not found: ${id}`);
+  if (current.status === "running") throw new ApiError("CONFLICT", `job ${id} is still running`);
+
+  const failed = current.rows.filter((r) => r.status === "failed");
+  if (!failed.length) return { job: current, retried: 0, done: Promise.resolve() };
+
+  const info = (await getJobLocal(id))!;
+  const job: JobInfo = { ...info, options: { ...info.options, ...(concurrency ? { concurrency } : {}) } };
+  for (const r of failed) await updateJobRow(id, r.index, { status: "pending" });
+  await appendAudit({ action: "job.retry", target: id, detail: { rows: failed.map((r) => r.index) } });
+  logger.info("[job] %s: retrying %d rows", id, failed.length);
+
+  const done = start(tenant, job, failed);
+  return { job: (await getJob(id))!, retried: failed.length, done };
+}
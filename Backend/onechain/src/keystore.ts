@@ -0,0 +1,99 @@
+// src/keystore.ts
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { logger, redact } from "./logger.js";
+import { KEYSTORE_PATH, MASTER_KEY, MASTER_KEY_FILE } from "./config.js";
+
+// AES-256-GCM per entry, key = scrypt(master key, file salt); the entry name is the AAD
+type Sealed = { iv: string; tag: string; ct: string };
+type KeystoreFile = { v: 1; kdf: "scrypt"; salt: string; entries: Record<string, Sealed> };
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+let opened: { file: KeystoreFile; key: Buffer } | null = null;
+
+function masterSecret(): string | null {
+  if (MASTER_KEY) return MASTER_KEY;
+  if (MASTER_KEY_FILE && existsSync(MASTER_KEY_FILE)) {
+    const s = readFileSync(MASTER_KEY_FILE, "utf8").trim();
+    if (s) return s;
+  }
+  return null;
+}
+
+export function keystoreEnabled(): boolean {
+  return masterSecret() !== null;
+}
+
+function seal(key: Buffer, name: string, value: string): Sealed {
+  const iv = randomBytes(12);
+  const c = createCipheriv("aes-256-gcm", key, iv);
+  c.setAAD(Buffer.from(name, "utf8"));
+  const ct = Buffer.concat([c.update(value, "utf8"), c.final()]);
+  return { iv: iv.toString("base64"), tag: c.getAuthTag().toString("base64"), ct: ct.toString("base64") };
+}
+
+function unseal(key: Buffer, name: string, s: Sealed): string {
+  const d = createDecipheriv("aes-256-gcm", key, Buffer.from(s.iv, "base64"));
+  d.setAAD(Buffer.from(name, "utf8"));
+  d.setAuthTag(Buffer.from(s.tag, "base64"));
+  return Buffer.concat([d.update(Buffer.from(s.ct, "base64")), d.final()]).toString("utf8");
+}
+
+function open() {
+  if (opened) return opened;
+  const secret = masterSecret();
+  if (!secret) throw new KeystoreError("no master key (set ONECHAIN_MASTER_KEY or ONECHAIN_MASTER_KEY_FILE)");
+  redact(secret);
+
+  const file: KeystoreFile = existsSync(KEYSTORE_PATH)
+    ? JSON.parse(readFileSync(KEYSTORE_PATH, "utf8"))
+    : { v: 1, kdf: "scrypt", salt: randomBytes(16).toString("base64"), entries: {} };
+  const key = scryptSync(secret, Buffer.from(file.salt, "base64"), 32);
+
+  // fail early on a wrong master key rather than on first use
+  const [name, probe] = Object.entries(file.entries)[0] ?? [];
+  if (name && probe) {
+    try { unseal(key, name, probe); }
+    catch { throw new KeystoreError(`master key does not open keystore ${KEYSTORE_PATH}`); }
+  }
+
+  opened = { file, key };
+  logger.info("[keystore] opened %s (%d entries)", KEYSTORE_PATH, Object.keys(file.entries).length);
+  return opened;
+}
+
+function persist(file: KeystoreFile) {
+  mkdirSync(dirname(KEYSTORE_PATH), { recursive: true });
+  const tmp = `${KEYSTORE_PATH}.tmp`;
+  writeFileSync(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+  renameSync(tmp, KEYSTORE_PATH);
+}
+
+/** Decrypted secret, or null when absent. Values are registered for log redaction. */
+export function getSecret(name: string): string | null {
+  const { file, key } = open();
+  const s = file.entries[name];
+  if (!s) return null;
+  const value = unseal(key, name, s);
+  redact(value);
+  return value;
+}
+
+export function putSecret(name: string, value: string) {
+  const { file, key } = open();
+  file.entries[name] = seal(key, name, value);
+  persist(file);
+  redact(value);
+  logger.info("[keystore] stored %s", name);
+}
+
+export function listSecretNames(prefix = ""): string[] {
+  return Object.keys(open().file.entries).filter((n) => n.startsWith(prefix));
+}
@@ -0,0 +1,55 @@
+// src/lei.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { leiProblem, checkLeiFormat, checkLeiRecord } from "./lei.js";
+import type { LeiRecord } from "./store.js";
+
+test("well-formed LEIs have no problem", () => {
+  for (const lei of ["5493001KJTIIGC8Y1R12", "529900T8BM49AURSDO55", "HWUPKR0MPOU8FGXBT394"]) {
+    assert.equal(leiProblem(lei), null, lei);
+  }
+});
+
+test("wrong check digits are caught", () => {
+  assert.match(leiProblem("5493001KJTIIGC8Y1R17")!, /check digits/);
+  assert.match(leiProblem("5493001KJTIIGC8Y1R21")!, /check digits/);
+});
+
+test("a transposition in the entity part is caught", () => {
+  assert.match(leiProblem("5493001JKTIIGC8Y1R12")!, /check digits/);
+});
+
+test("length and character set are checked before the check digits", () => {
+  assert.match(leiProblem("5493001KJTIIGC8Y1R1")!, /20 characters, got 19/);
+  assert.match(leiProblem("5493001kjtiigc8y1r12")!, /upper-case/);
+  assert.match(leiProblem("5493001KJTIIGC8Y1RAB")!, /2 check digits/);
+});
+
+test("checkLeiFormat throws LEI_INVALID with the LEI", () => {
+  assert.throws(() => checkLeiFormat("5493001KJTIIGC8Y1R17"), (e: any) => e.code === "LEI_INVALID" && e.detail?.lei === "5493001KJTIIGC8Y1R17");
+  assert.doesNotThrow(() => checkLeiFormat("5493001KJTIIGC8Y1R12"));
+});
+
+const RECORD: LeiRecord = { lei: "5493001KJTIIGC8Y1R12", legalName: "Acme Holdings AG", registrationStatus: "ISSUED" };
+const rejected = (reason: string) => (e: any) => e.code === "LEI_REJECTED" && e.detail?.reason === reason;
+
+test("issued and pending transfer or archival registrations are live", () => {
+  for (const registrationStatus of ["ISSUED", "PENDING_TRANSFER", "PENDING_ARCHIVAL"]) {
+    assert.doesNotThrow(() => checkLeiRecord({ ...RECORD, registrationStatus }, "Acme Holdings AG"), registrationStatus);
+  }
+});
+
+test("a CANCELLED record is rejected as not issued", () => {
+  assert.throws(() => checkLeiRecord({ ...RECORD, registrationStatus: "CANCELLED" }), rejected("NOT_ISSUED"));
+});
+
+test("statuses outside the allow-list are rejected, including unknown and empty ones", () => {
+  for (const registrationStatus of ["PENDING_VALIDATION", "TRANSFERRED", "LAPSED", "RETIRED", "SOMETHING_NEW", ""]) {
+    assert.throws(() => checkLeiRecord({ ...RECORD, registrationStatus }), rejected("NOT_ISSUED"), registrationStatus);
+  }
+});
+
+test("the legal name is compared ignoring case, width and spacing", () => {
+  assert.doesNotThrow(() => checkLeiRecord(RECORD, "  acme   HOLDINGS ａｇ "));
+  assert.throws(() => checkLeiRecord(RECORD, "Acme Holding AG"), rejected("NAME_MISMATCH"));
+});
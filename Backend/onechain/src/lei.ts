@@ -0,0 +1,201 @@
+// src/lei.ts
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { GLEIF_GOLDEN_COPY_FILE } from "./config.js";
+import { readCsv } from "./csv.js";
+import { getLeiRecord, getLeiSource, replaceLeiRecords, type LeiRecord, type LeiMatch, type LeiSource } from "./store.js";
+
+// ISO 17442: 18 letters/digits (LOU prefix + entity part), then 2 check digits
+const LEI_FORMAT = /^[A-Z0-9]{18}[0-9]{2}$/;
+
+const IMPORT_BATCH = 5000;
+
+// LEI-CDF registration statuses of a live registration; anything else (PENDING_VALIDATION,
+// CANCELLED, LAPSED, RETIRED, ANNULLED, TRANSFERRED, ...) is not issued or no longer valid
+const LIVE_STATUSES = ["ISSUED", "PENDING_TRANSFER", "PENDING_ARCHIVAL"];
+
+/** Why `lei` is not a well-formed ISO 17442 LEI; null when it is. */
+export function leiProblem(lei: string): string | null {
+  if (lei.length !== 20) return `LEI must be 20 characters, got ${lei.length}`;
+  if (!LEI_FORMAT.test(lei)) return "LEI must be 18 upper-case letters or digits followed by 2 check digits";
+  // ISO 7064 MOD 97-10: letters count as 10..35, the whole number mod 97 must be 1
+  let rem = 0;
+  for (const ch of lei) {
+    const v = parseInt(ch, 36);
+    rem = (v < 10 ? rem * 10 + v : rem * 100 + v) % 97;
+  }
+  return rem === 1 ? null : "LEI check digits do not match (ISO 7064 MOD 97-10); typo?";
+}
+
+export function checkLeiFormat(lei: string) {
+  const problem = leiProblem(lei);
+  if (problem) throw new ApiError("LEI_INVALID", problem, { lei });
+}
+
+// case, Unicode width and spacing differences are not mismatches
+function sameName(a: string, b: string) {
+  const norm = (s: string) => s.normalize("NFKC").replace(/\s+/g, " ").trim().toLocaleUpperCase("en");
+  return norm(a) === norm(b);
+}
+
+/** LEI_REJECTED unless the golden-copy `record` is a live registration (under `legalName`, when given). */
+export function checkLeiRecord(record: LeiRecord, legalName?: string) {
+  const { lei } = record;
+  if (!LIVE_STATUSES.includes(record.registrationStatus)) {
+    throw new ApiError("LEI_REJECTED", `LEI ${lei} is ${record.registrationStatus || "without registration status"} in the GLEIF golden copy`, {
+      lei,
+      reason: "NOT_ISSUED",
+      record,
+    });
+  }
+  if (legalName !== undefined && !sameName(legalName, record.legalName)) {
+    throw new ApiError("LEI_REJECTED", `legal name "${legalName}" does not match "${record.legalName}" registered for LEI ${lei}`, {
+      lei,
+      reason: "NAME_MISMATCH",
+      record,
+    });
+  }
+}
+
+/**
+ * Checks `lei` before Legal Entity issuance: ISO 17442 structure and check
+ * digits, then, with a golden copy configured, that GLEIF lists it under
+ * `legalName` with a live registration (issued, or pending transfer or
+ * archival). Returns the matched record to keep with the credential; null
+ * when there is no golden copy to check against.
+ */
+export async function checkLei(lei: string, legalName?: string): Promise<LeiMatch | null> {
+  checkLeiFormat(lei);
+  if (!GLEIF_GOLDEN_COPY_FILE) return null;
+
+  const source = await getLeiSource();
+  if (!source) throw new ApiError("GOLDEN_COPY_UNAVAILABLE", `GLEIF golden copy ${GLEIF_GOLDEN_COPY_FILE} is not imported yet`);
+  const record = await getLeiRecord(lei);
+  if (!record) {
+    throw new ApiError("LEI_REJECTED", `LEI ${lei} is not in the GLEIF golden copy`, { lei, reason: "NOT_FOUND", goldenCopy: source.imported });
+  }
+  checkLeiRecord(record, legalName);
+  return { record, source: { file: source.file, imported: source.imported }, checked: new Date().toISOString() };
+}
+
+/** What GET /lei/:lei reports: format problems and the golden-copy record, without judging the name. */
+export async function lookupLei(lei: string) {
+  const problem = leiProblem(lei);
+  const source = GLEIF_GOLDEN_COPY_FILE ? await getLeiSource() : undefined;
+  const record = !problem && source ? await getLeiRecord(lei) : undefined;
+  return { lei, valid: !problem, ...(problem ? { problem } : {}), record: record ?? null, goldenCopy: source ?? null };
+}
+
+// ---- golden-copy import ----
+
+// LEI-CDF 3.x CSV columns, as named in GLEIF's golden-copy files
+function fromCsv(row: Record<string, string>): LeiRecord | null {
+  if (!row["LEI"] || !row["Entity.LegalName"]) return null;
+  return {
+    lei: row["LEI"],
+    legalName: row["Entity.LegalName"],
+    registrationStatus: row["Registration.RegistrationStatus"] ?? "",
+    entityStatus: row["Entity.EntityStatus"],
+    jurisdiction: row["Entity.LegalJurisdiction"],
+    managingLou: row["Registration.ManagingLOU"],
+    lastUpdate: row["Registration.LastUpdateDate"],
+    nextRenewal: row["Registration.NextRenewalDate"],
+  };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+const XML_RECORD_START = /<(?:[\w.-]+:)?LEIRecord[\s>]/;
+const XML_RECORD_END = /<\/(?:[\w.-]+:)?LEIRecord\s*>/;
+
+function xmlText(xml: string, tag: string): string | undefined {
+  const m = new RegExp(`<(?:[\\w.-]+:)?${tag}(?:\\s[^>]*)?>([^<]*)</`).exec(xml);
+  if (!m) return undefined;
+  const text = m[1].trim().replace(/&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi, (_, hex, dec, name) =>
+    hex ? String.fromCodePoint(parseInt(hex, 16)) : dec ? String.fromCodePoint(parseInt(dec, 10)) : XML_ENTITIES[name.toLowerCase()]
+  );
+  return text || undefined;
+}
+
+// One <lei:LEIRecord> element; the first LegalName is the entity's (other names have their own tags)
+function fromXml(xml: string): LeiRecord | null {
+  const lei = xmlText(xml, "LEI");
+  const legalName = xmlText(xml, "LegalName");
+  if (!lei || !legalName) return null;
+  return {
+    lei,
+    legalName,
+    registrationStatus: xmlText(xml, "RegistrationStatus") ?? "",
+    entityStatus: xmlText(xml, "EntityStatus"),
+    jurisdiction: xmlText(xml, "LegalJurisdiction"),
+    managingLou: xmlText(xml, "ManagingLOU"),
+    lastUpdate: xmlText(xml, "LastUpdateDate"),
+    nextRenewal: xmlText(xml, "NextRenewalDate"),
+  };
+}
+
+async function* csvRecords(chunks: AsyncIterable<string>): AsyncGenerator<LeiRecord> {
+  for await (const row of readCsv(chunks)) {
+    const r = fromCsv(row);
+    if (r) yield r;
+  }
+}
+
+// LEI-CDF XML is one flat list of records: cut at each closing tag instead of parsing the document
+async function* xmlRecords(chunks: AsyncIterable<string>): AsyncGenerator<LeiRecord> {
+  let buf = "";
+  for await (const chunk of chunks) {
+    buf += chunk;
+    for (let m = XML_RECORD_END.exec(buf); m; m = XML_RECORD_END.exec(buf)) {
+      const xml = buf.slice(0, m.index);
+      buf = buf.slice(m.index + m[0].length);
+      const start = xml.search(XML_RECORD_START);
+      const r = start < 0 ? null : fromXml(xml.slice(start));
+      if (r) yield r;
+    }
+  }
+}
+
+async function* batched(records: AsyncIterable<LeiRecord>): AsyncGenerator<LeiRecord[]> {
+  let batch: LeiRecord[] = [];
+  for await (const r of records) {
+    batch.push(r);
+    if (batch.length === IMPORT_BATCH) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length) yield batch;
+}
+
+let importing: Promise<LeiSource> | null = null;
+
+/**
+ * Imports GLEIF_GOLDEN_COPY_FILE (".xml" is read as LEI-CDF XML, anything
+ * else as CSV) unless the stored copy came from the same file, size and
+ * mtime; `force` re-imports anyway. Lookups keep using the previous copy
+ * until the import completes. Concurrent calls share one import.
+ */
+export function importGoldenCopy(force = false): Promise<LeiSource> {
+  if (!GLEIF_GOLDEN_COPY_FILE) return Promise.reject(new ApiError("CONFLICT", "no GLEIF golden copy configured (GLEIF_GOLDEN_COPY_FILE)"));
+  importing ??= (async () => {
+    const file = GLEIF_GOLDEN_COPY_FILE;
+    const st = await stat(file).catch((e: any) => {
+      throw new ApiError("GOLDEN_COPY_UNAVAILABLE", `GLEIF golden copy ${file} unreadable: ${e?.message ?? String(e)}`);
+    });
+    const mtime = st.mtime.toISOString();
+    const current = await getLeiSource();
+    if (!force && current?.file === file && current.size === st.size && current.mtime === mtime) return current;
+
+    logger.info("[lei] importing golden copy %s (%d bytes)", file, st.size);
+    const chunks = createReadStream(file, { encoding: "utf8" });
+    const records = /\.xml$/i.test(file) ? xmlRecords(chunks) : csvRecords(chunks);
+    const done = await replaceLeiRecords({ file, size: st.size, mtime }, batched(records));
+    logger.info("[lei] golden copy %s: %d records", file, done.records);
+    return done;
+  })().finally(() => {
+    importing = null;
+  });
+  return importing;
+}
@@ -1,8 +1,19 @@
 // simple structured logger, variadic to tolerate any call pattern
 type Level = 'info' | 'warn' | 'error' | 'debug';
 
+// key material (brans, master key) never reaches the output, whatever the call site passes
+const secrets = new Set<string>();
+export function redact(secret: string) {
+  if (secret && secret.length >= 8) secrets.add(secret);
+}
+
+function scrub(line: string) {
+  for (const s of secrets) line = line.split(s).join('[redacted]');
+  return line;
+}
+
 export function log(level: Level, ...parts: any[]) {
-  const line = `[${level}] ${parts.map(p => (typeof p === 'string' ? p : JSON.stringify(p))).join(' ')}`;
+  const line = scrub(`[${level}] ${parts.map(p => (typeof p === 'string' ? p : JSON.stringify(p))).join(' ')}`);
   if (level === 'error') console.error(line);
   else if (level === 'warn') console.warn(line);
   else console.log(line);
@@ -0,0 +1,70 @@
+// src/middleware.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Request, Response } from "express";
+
+// config.ts reads its environment once, so it is set before the modules load
+const dir = mkdtempSync(join(tmpdir(), "onechain-auth-"));
+writeFileSync(join(dir, "keys.json"), JSON.stringify({
+  keys: [
+    { id: "ops", key: "admin-key", roles: ["admin"] },
+    { id: "clerk", key: "issuer-key", roles: ["issuer"] },
+    { id: "acme-reader", key: "acme-key", roles: ["reader"], tenant: "acme" },
+  ],
+}));
+Object.assign(process.env, {
+  AUTH_MODE: "required",
+  AUTH_KEYS_FILE: join(dir, "keys.json"),
+  CONTROLLER_PASSCODE: "0123456789abcdefghijk",
+  TENANT_BRANS: JSON.stringify({ acme: "abcdefghijk0123456789", other: "klmnopqrstu0123456789" }),
+  ONECHAIN_MASTER_KEY: "",
+  ONECHAIN_MASTER_KEY_FILE: "",
+  TENANTS_FILE: "",
+});
+const { requestScope, allow, toApiError } = await import("./middleware.js");
+const { ERROR_STATUS } = await import("./errors.js");
+
+// HTTP status of a request to a `role` route: 200 when it would reach the handler
+function status(key: string | null, tenant: string | null, role: "reader" | "issuer" | "admin") {
+  const req = {
+    headers: { ...(key ? { authorization: `Bearer ${key}` } : {}), ...(tenant ? { "x-tenant-id": tenant } : {}) },
+    params: {},
+  } as unknown as Request;
+  const res = { locals: {} } as unknown as Response;
+  let reached = false;
+  try {
+    requestScope(req, res, () => allow(role)(req, res, () => { reached = true; }));
+  } catch (e) {
+    return ERROR_STATUS[toApiError(e).code];
+  }
+  return reached ? 200 : 0;
+}
+
+test("roles rank admin > issuer > reader", () => {
+  assert.equal(status("issuer-key", null, "reader"), 200);
+  assert.equal(status("issuer-key", null, "issuer"), 200);
+  assert.equal(status("issuer-key", null, "admin"), 403);
+  assert.equal(status("admin-key", "acme", "admin"), 200);
+});
+
+test("missing or wrong credentials get 401 whatever the tenant", () => {
+  for (const tenant of [null, "acme", "nope"]) {
+    assert.equal(status(null, tenant, "reader"), 401);
+    assert.equal(status("wrong-key", tenant, "reader"), 401);
+  }
+});
+
+test("a tenant-bound principal gets the same 403 on known and unknown tenants", () => {
+  assert.equal(status("acme-key", "acme", "reader"), 200);
+  assert.equal(status("acme-key", "acme", "issuer"), 403);
+  assert.equal(status("acme-key", "other", "reader"), 403);
+  assert.equal(status("acme-key", "nope", "reader"), 403);
+  assert.equal(status("acme-key", null, "reader"), 403);
+});
+
+test("only principals allowed on every tenant learn that a tenant does not exist", () => {
+  assert.equal(status("issuer-key", "nope", "reader"), 404);
+});
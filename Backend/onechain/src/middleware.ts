@@ -0,0 +1,127 @@
+// src/middleware.ts
+import type { Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from "express";
+import { Ajv, type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import { logger } from "./logger.js";
+import { TENANT_HEADER, DEFAULT_TENANT } from "./config.js";
+import { ApiError, isNetworkError, keriaHttpStatus } from "./errors.js";
+import { SchemaValidationError, fieldErrors } from "./schemas.js";
+import { authenticate, authorize, authorizeTenant, withPrincipal, AuthError, type Role, type Principal } from "./auth.js";
+import { tenantContext, withTenant, UnknownTenantError, type TenantContext } from "./tenants.js";
+import { ensureBootStrictAndConnect } from "./signify.js";
+import { parseCsv } from "./csv.js";
+
+// Request schemas get their own Ajv; query strings are coerced to the declared types
+const bodyAjv = new Ajv({ strict: false, allErrors: true });
+const queryAjv = new Ajv({ strict: false, allErrors: true, coerceTypes: true });
+addFormats.default(bodyAjv);
+addFormats.default(queryAjv);
+
+export type RequestSchemas = { body?: object; query?: object };
+
+function invalid(where: "body" | "query", v: ValidateFunction) {
+  return new ApiError("VALIDATION_FAILED", `invalid request ${where}`, { in: where, errors: fieldErrors(v.errors) });
+}
+
+/** 400 VALIDATION_FAILED unless body/query match the route's schemas. */
+export function validate(schemas: RequestSchemas): RequestHandler {
+  const body = schemas.body ? bodyAjv.compile(schemas.body) : null;
+  const query = schemas.query ? queryAjv.compile(schemas.query) : null;
+  return (req, _res, next) => {
+    req.body = req.body ?? {};
+    if (body && !body(req.body)) return next(invalid("body", body));
+    if (query) {
+      const q = { ...req.query };
+      if (!query(q)) return next(invalid("query", query));
+      req.query = q as any;
+    }
+    next();
+  };
+}
+
+/** text/csv bodies -> array of row objects, so the route validates them like a JSON array. */
+export const csvBody: RequestHandler = (req, _res, next) => {
+  if (typeof req.body === "string" && req.is("text/csv")) req.body = parseCsv(req.body);
+  next();
+};
+
+/** Async handler/middleware whose rejections reach the error handler (express 4). */
+export function route(fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    fn(req, res, next).catch(next);
+  };
+}
+
+// Routes that talk to the tenant's agent
+export const keria = route(async (_req, _res, next) => {
+  await ensureBootStrictAndConnect();
+  next();
+});
+
+/**
+ * Authenticates the caller, then resolves the tenant ("/t/:tenant" mount or
+ * tenant header) and runs the rest of the chain inside both scopes. A
+ * principal bound to another tenant gets its 403 before the tenant is looked
+ * up, so unknown and known tenants answer alike; only principals allowed on
+ * every tenant see TENANT_NOT_FOUND.
+ */
+export const requestScope: RequestHandler = (req, res, next) => {
+  const principal: Principal = authenticate(req);
+  const h = req.headers[TENANT_HEADER];
+  const id = req.params.tenant ?? (Array.isArray(h) ? h[0] : h)?.trim();
+  authorizeTenant(principal, id || DEFAULT_TENANT);
+  const tenant: TenantContext = tenantContext(id || DEFAULT_TENANT);
+  res.locals.tenant = tenant;
+  res.locals.principal = principal;
+  withTenant(tenant, () => withPrincipal(principal, () => next()));
+};
+
+/** 403 unless the caller holds `role` on the request's tenant. */
+export function allow(role: Role): RequestHandler {
+  return (_req, res, next) => {
+    authorize(res.locals.principal, role, res.locals.tenant.id);
+    next();
+  };
+}
+
+// 202 while the KERIA operation behind a response is still running
+export function opStatus(op: { done: boolean } | null | undefined) {
+  return op && !op.done ? 202 : 200;
+}
+
+/** ?wait=true|1|yes; `dflt` when the parameter is absent. */
+export function wantsWait(req: Request, dflt = false) {
+  const v = req.query.wait;
+  if (v === undefined) return dflt;
+  return ["1", "true", "yes"].includes(String(v).toLowerCase());
+}
+
+/** Any thrown value -> ApiError with a stable code. */
+export function toApiError(e: any): ApiError {
+  if (e instanceof ApiError) return e;
+  if (e instanceof SchemaValidationError) {
+    return new ApiError("INVALID_CREDENTIAL_DATA", "invalid credential data", { schema: e.schema, errors: e.errors });
+  }
+  if (e instanceof AuthError) return new ApiError(e.status === 401 ? "UNAUTHORIZED" : "FORBIDDEN", e.message);
+  if (e instanceof UnknownTenantError) return new ApiError("TENANT_NOT_FOUND", e.message, { tenant: e.tenant });
+  if (e?.type === "entity.parse.failed") return new ApiError("INVALID_JSON", "request body is not valid JSON");
+  if (e?.type === "entity.too.large") return new ApiError("BAD_REQUEST", "request body too large");
+  if (isNetworkError(e)) return new ApiError("KERIA_UNREACHABLE", "KERIA agent unreachable");
+  const upstream = keriaHttpStatus(e);
+  if (upstream) return new ApiError("KERIA_ERROR", `KERIA request failed with ${upstream}`, { status: upstream });
+  return new ApiError("INTERNAL", "internal error");
+}
+
+export const notFound: RequestHandler = (req, _res, next) => {
+  next(new ApiError("NOT_FOUND", `no route for ${req.method} ${req.path}`));
+};
+
+export const errorHandler: ErrorRequestHandler = (e, req, res, _next) => {
+  const err = toApiError(e);
+  if (err.status >= 500) logger.error("[http] %s %s %s: %s", req.method, req.originalUrl, err.code, e?.stack ?? String(e));
+  else logger.warn("[http] %s %s %s: %s", req.method, req.originalUrl, err.code, err.message);
+
+  if (res.headersSent) return;
+  if (err.code === "UNAUTHORIZED") res.setHeader("www-authenticate", 'Bearer, Basic realm="onechain"');
+  res.status(err.status).json(err.toBody());
+};
@@ -0,0 +1,310 @@
+// src/multisig.ts
+import signify from "signify-ts";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { getClient, prepareWitnessArgs } from "./signify.js";
+import { getAid, extractPrefix } from "./aid.js";
+import { registryNameFor } from "./registry.js";
+import { trackOperation, type OpHandle } from "./operations.js";
+import { putAid, appendAudit } from "./store.js";
+import { TOAD } from "./config.js";
+import { enabledWitnessEids } from "./witness-pool.js";
+
+const { Siger, messagize, d } = signify;
+
+export const MULTISIG_ROUTES = ["/multisig/icp", "/multisig/rot", "/multisig/vcp", "/multisig/iss"] as const;
+export type MultisigRoute = (typeof MULTISIG_ROUTES)[number];
+
+export type GroupMember = string | { oobi: string; alias: string }; // local alias/prefix, or a remote member's OOBI
+
+export type CreateGroupOpts = {
+  member: string;            // local member alias that initiates
+  members: GroupMember[];    // all members, initiator included
+  isith?: number | string | string[];
+  nsith?: number | string | string[];
+  toad?: number;
+  wait?: boolean;
+};
+
+export function isGroup(hab: any): boolean {
+  return Boolean(hab?.group);
+}
+
+// Attachment (signatures) for an embedded event, as multisig exn embeds expect it
+function attachment(serder: any, sigs: string[]): string {
+  const sigers = sigs.map((sig) => new Siger({ qb64: sig }));
+  const ims = d(messagize(serder, sigers));
+  return ims.substring(serder.size);
+}
+
+async function resolveMember(m: GroupMember): Promise<string> {
+  const client = getClient();
+  if (typeof m !== "string") {
+    const op = await client.oobis().resolve(m.oobi, m.alias);
+    await trackOperation(op, "oobi.resolve", { wait: true, meta: { alias: m.alias } });
+    const c = await client.contacts().list(undefined, "alias", `^${m.alias}$`);
+    const pre = Array.isArray(c) ? c[0]?.id : null;
+    if (!pre) throw new ApiError("BAD_REQUEST", `member OOBI did not resolve to a contact: ${m.oobi}`);
+    return pre;
+  }
+  return extractPrefix(await getAid(m)) ?? m;
+}
+
+async function keyStates(prefixes: string[]) {
+  const client = getClient();
+  return Promise.all(
+    prefixes.map(async (pre) => {
+      const st = await client.keyStates().get(pre);
+      const s = Array.isArray(st) ? st[0] : st;
+      if (!s) throw new ApiError("KERIA_ERROR", `no key state for member ${pre}`);
+      return s;
+    })
+  );
+}
+
+async function otherMembers(groupName: string, memberPre: string): Promise<string[]> {
+  const client = getClient();
+  const m = await client.identifiers().members(groupName);
+  const all = [...(m?.signing ?? []), ...(m?.rotation ?? [])].map((x: any) => x.aid);
+  return Array.from(new Set(all)).filter((aid) => aid !== memberPre);
+}
+
+/**
+ * Sends a multisig proposal/approval exn from the group's local member to the
+ * other members. `embeds` carries the events being proposed with attachments.
+ */
+export async function notifyGroup(
+  groupName: string,
+  route: MultisigRoute,
+  payload: Record<string, unknown>,
+  embeds: Record<string, [any, string]>,
+  recipients?: string[]
+) {
+  const client = getClient();
+  const group = await getAid(groupName);
+  const memberName = group?.group?.mhab?.name;
+  const member = await getAid(memberName);
+  if (!member) throw new ApiError("AID_NOT_FOUND", `no local member for group ${groupName}`);
+
+  const to = recipients ?? (await otherMembers(groupName, member.prefix));
+  await client.exchanges().send(memberName, "multisig", member, route, payload, embeds, to);
+  logger.info("[multisig.send] %s %s -> %d members", route, groupName, to.length);
+}
+
+// Convenience senders for events the group itself produced
+export async function proposeIssuance(groupName: string, issued: any) {
+  const client = getClient();
+  const group = await getAid(groupName);
+  const keeper = client.manager.get(group);
+  const sigs = await keeper.sign(signify.b(issued.anc.raw));
+  await notifyGroup(groupName, "/multisig/iss", { gid: group.prefix }, {
+    acdc: [issued.acdc, ""],
+    iss: [issued.iss, ""],
+    anc: [issued.anc, attachment(issued.anc, sigs)],
+  });
+}
+
+export async function proposeRegistry(groupName: string, created: any) {
+  const group = await getAid(groupName);
+  await notifyGroup(groupName, "/multisig/vcp", { gid: group.prefix }, {
+    vcp: [created.regser, ""],
+    anc: [created.serder, attachment(created.serder, created.sigs)],
+  });
+}
+
+/** Group inception from a local member; other members approve via approveGroupRequest. */
+export async function createGroup(groupName: string, opts: CreateGroupOpts) {
+  const client = getClient();
+  const mhab = await getAid(opts.member);
+  if (!mhab) throw new ApiError("AID_NOT_FOUND", `member AID not found: ${opts.member}`);
+
+  const smids = Array.from(new Set(await Promise.all(opts.members.map(resolveMember))));
+  if (!smids.includes(mhab.prefix)) smids.unshift(mhab.prefix);
+  const states = await keyStates(smids);
+
+  const { wits, toad } = await prepareWitnessArgs(opts.toad ?? TOAD, enabledWitnessEids(), {
+    logPrefix: "group.wits",
+  });
+
+  const res = await client.identifiers().create(groupName, {
+    algo: "group",
+    mhab,
+    isith: opts.isith ?? smids.length,
+    nsith: opts.nsith ?? smids.length,
+    toad,
+    wits,
+    states,
+    rstates: states,
+  });
+
+  const serder = res.serder;
+  await notifyGroup(
+    groupName,
+    "/multisig/icp",
+    { gid: serder.pre, smids, rmids: smids },
+    { icp: [serder, attachment(serder, res.sigs)] },
+    smids.filter((p) => p !== mhab.prefix)
+  );
+
+  await putAid({ name: groupName, prefix: serder.pre, transferable: true });
+  await appendAudit({ action: "group.create", actor: opts.member, target: serder.pre, detail: { groupName, smids } });
+
+  const operation = await trackOperation(await res.op(), "group.icp", {
+    wait: opts.wait ?? false,
+    meta: { groupName, smids },
+  });
+  logger.info("[group.create] %s %s members=%d", groupName, serder.pre, smids.length);
+  return { name: groupName, prefix: serder.pre, smids, operation };
+}
+
+export type GroupRequest = {
+  said: string;      // notification exn SAID
+  note: string;      // notification id
+  route: MultisigRoute;
+  gid: string | null;
+  sender: string | null;
+  smids?: string[];
+  dt: string | null;
+};
+
+/** Unread multisig notifications (inception, rotation, registry, issuance proposals). */
+export async function listGroupRequests(): Promise<GroupRequest[]> {
+  const client = getClient();
+  const r = await client.notifications().list();
+  const notes = (Array.isArray(r) ? r : r?.notes ?? []).filter(
+    (n: any) => MULTISIG_ROUTES.includes(n?.a?.r) && !n?.r
+  );
+
+  const out: GroupRequest[] = [];
+  for (const n of notes) {
+    let exn: any = null;
+    try {
+      exn = (await client.groups().getRequest(n.a.d))?.[0]?.exn;
+    } catch (e: any) {
+      logger.debug("[group.requests] %s: %s", n.a.d, e?.message ?? String(e));
+    }
+    out.push({
+      said: n.a.d,
+      note: n.i,
+      route: n.a.r,
+      gid: exn?.a?.gid ?? null,
+      sender: exn?.i ?? null,
+      ...(exn?.a?.smids ? { smids: exn.a.smids } : {}),
+      dt: exn?.dt ?? n.dt ?? null,
+    });
+  }
+  return out;
+}
+
+async function aliasForPrefix(pre: string): Promise<string | null> {
+  const client = getClient();
+  const r = await client.identifiers().list();
+  const list = Array.isArray(r) ? r : r?.aids ?? [];
+  return list.find((a: any) => a?.prefix === pre)?.name ?? null;
+}
+
+export type ApproveOpts = {
+  groupName?: string;   // local alias for the group; required for inception
+  wait?: boolean;
+};
+
+/**
+ * Approves a pending multisig request as this agent's member: replays the
+ * proposed event on the local group hab and answers the other members.
+ */
+export async function approveGroupRequest(said: string, opts: ApproveOpts = {}) {
+  const client = getClient();
+  const req = (await client.groups().getRequest(said))?.[0];
+  const exn = req?.exn;
+  if (!exn) return null;
+
+  const route = exn.r as MultisigRoute;
+  const gid: string = exn.a?.gid;
+  const groupName = opts.groupName ?? (gid ? await aliasForPrefix(gid) : null);
+  let op: any;
+  let kind: string;
+
+  if (route === "/multisig/icp") {
+    if (!groupName) throw new ApiError("BAD_REQUEST", "groupName required to join a group inception");
+    const icp = exn.e.icp;
+    const smids: string[] = exn.a.smids;
+    const rmids: string[] = exn.a.rmids ?? smids;
+
+    const local = await Promise.all(smids.map(async (p) => ({ p, alias: await aliasForPrefix(p) })));
+    const mine = local.find((x) => x.alias && x.p !== exn.i);
+    if (!mine?.alias) throw new ApiError("CONFLICT", "no local member AID in this group");
+    const mhab = await getAid(mine.alias);
+
+    const res = await client.identifiers().create(groupName, {
+      algo: "group",
+      mhab,
+      isith: icp.kt,
+      nsith: icp.nt,
+      toad: parseInt(icp.bt, 16),
+      wits: icp.b,
+      states: await keyStates(smids),
+      rstates: await keyStates(rmids),
+      ...(icp.di ? { delpre: icp.di } : {}),
+    });
+    const serder = res.serder;
+    await notifyGroup(groupName, "/multisig/icp", { gid: serder.pre, smids, rmids }, {
+      icp: [serder, attachment(serder, res.sigs)],
+    }, smids.filter((p) => p !== mhab.prefix));
+    await putAid({ name: groupName, prefix: serder.pre, transferable: true });
+    op = await res.op();
+    kind = "group.icp";
+  } else {
+    if (!groupName) throw new ApiError("AID_NOT_FOUND", `group ${gid} is not managed by this agent`);
+
+    if (route === "/multisig/rot") {
+      const smids: string[] = exn.a.smids;
+      const rmids: string[] = exn.a.rmids ?? smids;
+      const res = await client.identifiers().rotate(groupName, {
+        states: await keyStates(smids),
+        rstates: await keyStates(rmids),
+      });
+      const serder = res.serder;
+      await notifyGroup(groupName, "/multisig/rot", { gid, smids, rmids }, {
+        rot: [serder, attachment(serder, res.sigs)],
+      });
+      op = await res.op();
+      kind = "group.rot";
+    } else if (route === "/multisig/vcp") {
+      const vcp = exn.e.vcp;
+      const created = await client.registries().create({
+        name: groupName,
+        registryName: registryNameFor(groupName),
+        nonce: vcp.n,
+      });
+      await proposeRegistry(groupName, created);
+      op = await created.op();
+      kind = "registry.create";
+    } else if (route === "/multisig/iss") {
+      const acdc = exn.e.acdc;
+      const issued = await client.credentials().issue(groupName, {
+        ri: acdc.ri,
+        s: acdc.s,
+        a: acdc.a,
+        ...(acdc.u ? { u: acdc.u } : {}),
+        ...(acdc.e ? { e: acdc.e } : {}),
+        ...(acdc.r ? { r: acdc.r } : {}),
+      });
+      await proposeIssuance(groupName, issued);
+      op = issued.op;
+      kind = "credential.issue";
+    } else {
+      throw new ApiError("BAD_REQUEST", `unsupported multisig route: ${route}`);
+    }
+  }
+
+  const notes = await listGroupRequests();
+  for (const n of notes.filter((n) => n.said === said)) await client.notifications().mark(n.note);
+
+  await appendAudit({ action: "group.approve", target: gid ?? groupName ?? undefined, detail: { route, said } });
+  const operation: OpHandle | null = await trackOperation(op, kind, {
+    wait: opts.wait ?? false,
+    meta: { groupName, route, said },
+  });
+  logger.info("[group.approve] %s %s", route, groupName);
+  return { groupName, route, operation };
+}
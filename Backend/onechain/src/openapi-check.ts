@@ -0,0 +1,23 @@
+// src/openapi-check.ts
+// CI gate: exits non-zero when the routes and the committed openapi.json drift.
+//   node dist/openapi-check.js [spec=openapi.json] [--write]
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { router } from "./routes.js";
+import { buildSpec, specDrift } from "./openapi.js";
+
+const args = process.argv.slice(2);
+const file = args.find((a) => !a.startsWith("--")) ?? "openapi.json";
+const spec = JSON.stringify(buildSpec(), null, 2) + "\n";
+
+const problems = specDrift(router);
+if (args.includes("--write")) {
+  writeFileSync(file, spec);
+  console.log(`wrote ${file}`);
+} else if (!existsSync(file)) {
+  problems.push(`${file} missing (run with --write)`);
+} else if (readFileSync(file, "utf8") !== spec) {
+  problems.push(`${file} is out of date with the route definitions (run with --write and commit)`);
+}
+
+for (const p of problems) console.error(p);
+process.exit(problems.length ? 1 : 0);
@@ -0,0 +1,183 @@
+// src/openapi.ts
+import type { Router } from "express";
+import { ERROR_STATUS } from "./errors.js";
+import { TENANT_HEADER } from "./config.js";
+import type { Role } from "./auth.js";
+
+// bump with breaking API changes; clients are generated against this document
+export const API_VERSION = "0.2.0";
+
+export type Method = "get" | "post" | "put" | "delete";
+
+// What a route declares once; routes.ts uses the same schemas for validation
+export type RouteSpec = {
+  summary: string;
+  tags: string[];
+  role: Role;
+  body?: object;
+  query?: object;
+  response?: object;          // 200 body; defaults to { ok: true, ... }
+  contentType?: string;       // 200 media type; defaults to application/json
+  csv?: boolean;              // body may also be text/csv (header row, then one row per line)
+  accepted?: boolean | string; // may answer 202 while a KERIA operation runs; a string says what to poll
+};
+
+type Documented = { method: Method; path: string; spec: RouteSpec };
+const documented: Documented[] = [];
+
+export function document(method: Method, path: string, spec: RouteSpec) {
+  documented.push({ method, path, spec });
+}
+
+// express "/aids/:name" -> OpenAPI "/aids/{name}"
+function oasPath(path: string) {
+  return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function pathParams(path: string) {
+  return Array.from(path.matchAll(/:([A-Za-z0-9_]+)/g)).map((m) => ({
+    name: m[1],
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+}
+
+function queryParams(query?: any) {
+  const props = query?.properties ?? {};
+  const required: string[] = query?.required ?? [];
+  return Object.entries(props).map(([name, schema]) => ({ name, in: "query", required: required.includes(name), schema }));
+}
+
+const waitParam = {
+  name: "wait",
+  in: "query",
+  required: false,
+  description: "Wait for the KERIA operation to finish instead of answering 202",
+  schema: { type: "boolean" },
+};
+
+const tenantParam = {
+  name: TENANT_HEADER,
+  in: "header",
+  required: false,
+  description: "Tenant id (alternatively prefix the path with /t/{tenant})",
+  schema: { type: "string" },
+};
+
+const errorRef = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+function operation({ method, path, spec }: Documented) {
+  const responses: Record<string, any> = {
+    "200": {
+      description: "OK",
+      content: { [spec.contentType ?? "application/json"]: { schema: spec.response ?? { $ref: "#/components/schemas/Ok" } } },
+    },
+    ...(spec.accepted
+      ? { "202": { description: `Accepted; poll ${typeof spec.accepted === "string" ? spec.accepted : "GET /operations/{name}"}`, content: { "application/json": { schema: { $ref: "#/components/schemas/Ok" } } } } }
+      : {}),
+    ...(spec.body || spec.query ? { "400": errorRef("Invalid request (VALIDATION_FAILED, INVALID_JSON)") } : {}),
+    "401": errorRef("Missing or invalid credentials"),
+    "403": errorRef(`Requires the ${spec.role} role`),
+    default: errorRef("Error; branch on `code`"),
+  };
+
+  return {
+    summary: spec.summary,
+    tags: spec.tags,
+    operationId: `${method}${oasPath(path).replace(/[{}]/g, "").split(/[/_-]/).map((s) => s.charAt(0).toUpperCase() + s.slice(1)).join("")}`,
+    "x-required-role": spec.role,
+    parameters: [...pathParams(path), ...queryParams(spec.query), ...(spec.accepted ? [waitParam] : []), tenantParam],
+    ...(spec.body
+      ? {
+          requestBody: {
+            required: Boolean((spec.body as any).required?.length || spec.csv),
+            content: {
+              "application/json": { schema: spec.body },
+              ...(spec.csv ? { "text/csv": { schema: { type: "string", description: "header row with the item property names, then one item per line" } } } : {}),
+            },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+/** OpenAPI 3 document for every route registered through document(). */
+export function buildSpec(version = API_VERSION) {
+  const paths: Record<string, any> = {};
+  for (const d of documented) {
+    const p = (paths[oasPath(d.path)] ??= {});
+    p[d.method] = operation(d);
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "onechain",
+      version,
+      description: "KERIA/Signify facade: AIDs, delegation, multisig groups and vLEI credential issuance.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerAuth: [] }, { basicAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "API key or HS256 JWT" },
+        basicAuth: { type: "http", scheme: "basic" },
+      },
+      schemas: {
+        Ok: { type: "object", required: ["ok"], properties: { ok: { type: "boolean", enum: [true] } }, additionalProperties: true },
+        Error: {
+          type: "object",
+          required: ["ok", "code", "error"],
+          properties: {
+            ok: { type: "boolean", enum: [false] },
+            code: { type: "string", enum: Object.keys(ERROR_STATUS) },
+            error: { type: "string" },
+            detail: {},
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Routes on the router without a document() entry and vice versa; empty
+ * when the spec matches the implementation.
+ */
+export function specDrift(router: Router): string[] {
+  const implemented = new Set<string>();
+  for (const layer of (router as any).stack ?? []) {
+    const r = layer?.route;
+    if (!r) continue;
+    for (const m of Object.keys(r.methods)) implemented.add(`${m.toUpperCase()} ${r.path}`);
+  }
+  const specified = new Set(documented.map((d) => `${d.method.toUpperCase()} ${d.path}`));
+
+  return [
+    ...Array.from(implemented).filter((k) => !specified.has(k)).map((k) => `undocumented route: ${k}`),
+    ...Array.from(specified).filter((k) => !implemented.has(k)).map((k) => `documented but not routed: ${k}`),
+  ];
+}
+
+/** Swagger UI page for /docs (assets from the public CDN). */
+export function docsHtml(specUrl: string, title = "onechain API") {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: "#ui" });</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,87 @@
+// src/operations.ts
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { getClient, waitOperation } from "./signify.js";
+import { putOperation, getOperationLocal } from "./store.js";
+import { OP_WAIT_TIMEOUT_MS } from "./config.js";
+
+// What callers get back for a KERIA long-running operation
+export type OpHandle = {
+  name: string;
+  kind: string;   // e.g. "aid.create", "registry.create", "credential.issue"
+  done: boolean;
+  error?: string;
+};
+
+export type TrackOpts = { wait?: boolean; timeoutMs?: number; meta?: any };
+
+function opError(op: any): string | undefined {
+  const e = op?.error;
+  if (!e) return undefined;
+  return typeof e === "string" ? e : e?.message ?? JSON.stringify(e);
+}
+
+/**
+ * Records a KERIA operation and optionally waits for it. A failed or timed
+ * out wait is recorded before the error is rethrown.
+ */
+export async function trackOperation(op: any, kind: string, opts: TrackOpts = {}): Promise<OpHandle | null> {
+  if (!op?.name) return null;
+  await putOperation({ name: op.name, kind, done: Boolean(op.done), error: opError(op), meta: opts.meta });
+
+  if (!opts.wait || op.done) {
+    return { name: op.name, kind, done: Boolean(op.done), ...(opError(op) ? { error: opError(op) } : {}) };
+  }
+
+  let done: any;
+  try {
+    done = await waitOperation(op, kind, opts.timeoutMs ?? OP_WAIT_TIMEOUT_MS);
+  } catch (e: any) {
+    const error = e?.message ?? String(e);
+    await putOperation({ name: op.name, kind, done: false, error });
+    logger.warn("[op] %s %s: %s", kind, op.name, error);
+    throw e;
+  }
+
+  const error = opError(done);
+  await putOperation({ name: op.name, kind, done: true, error });
+  if (error) throw new ApiError("OPERATION_FAILED", `${kind} failed: ${error}`, { operation: op.name });
+
+  logger.info("[op] %s %s done", kind, op.name);
+  return { name: op.name, kind, done: true };
+}
+
+/**
+ * Current view of an operation: live from KERIA when the agent still has it,
+ * otherwise the last recorded state. Null when neither knows the name.
+ */
+export async function getOperation(name: string): Promise<any | null> {
+  const local = await getOperationLocal(name);
+  const client = getClient();
+
+  let remote: any = null;
+  try {
+    remote = await client.operations().get(name);
+  } catch (e: any) {
+    logger.debug("[op.get] %s not in agent (%s)", name, e?.message ?? String(e));
+  }
+
+  if (!remote) return local ?? null;
+
+  const kind = local?.kind ?? name.split(".")[0];
+  const error = opError(remote);
+  if (!local || local.done !== Boolean(remote.done) || local.error !== error) {
+    await putOperation({ name, kind, done: Boolean(remote.done), error });
+  }
+
+  return {
+    name,
+    kind,
+    done: Boolean(remote.done),
+    ...(error ? { error } : {}),
+    ...(remote.metadata ? { metadata: remote.metadata } : {}),
+    ...(remote.response ? { response: remote.response } : {}),
+    ...(local?.meta ? { meta: local.meta } : {}),
+    ...(local ? { created: local.created } : {}),
+  };
+}
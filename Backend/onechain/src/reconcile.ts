@@ -0,0 +1,145 @@
+// src/reconcile.ts
+import { logger } from "./logger.js";
+import { getClient } from "./signify.js";
+import { extractPrefix } from "./aid.js";
+import { summarize } from "./credentials.js";
+import { receivedAdmits } from "./ipex.js";
+import {
+  putAid,
+  removeAid,
+  listAidsLocal,
+  addCredential,
+  removeCredential,
+  listCredsLocal,
+} from "./store.js";
+
+export type DriftReport = {
+  at: string;
+  repaired: boolean;
+  aids: {
+    missingLocal: string[];   // in KERIA, not in store (by name)
+    missingRemote: string[];  // in store, not in KERIA (by name)
+    prefixMismatch: string[]; // same name, different prefix
+  };
+  creds: {
+    missingLocal: string[];   // SAIDs
+    missingRemote: string[];  // SAIDs
+  };
+  admits: {
+    missingLocal: string[];   // exn SAIDs of admits received for our grants
+  };
+};
+
+const PAGE = 100;
+
+// unlike listAids() this throws on agent errors, so an outage never reads as drift
+async function listAllAids(): Promise<any[]> {
+  const client = getClient();
+  const out: any[] = [];
+  for (let start = 0; ; start += PAGE) {
+    const r = await client.identifiers().list(start, start + PAGE - 1);
+    if (Array.isArray(r)) return r; // older agents return everything at once
+    const page = Array.isArray(r?.aids) ? r.aids : [];
+    out.push(...page);
+    if (page.length < PAGE || out.length >= (r?.total ?? 0)) break;
+  }
+  return out;
+}
+
+async function listAllCredentials(): Promise<any[]> {
+  const client = getClient();
+  const out: any[] = [];
+  for (let skip = 0; ; skip += PAGE) {
+    const page = await client.credentials().list({ skip, limit: PAGE });
+    if (!Array.isArray(page) || page.length === 0) break;
+    out.push(...page);
+    if (page.length < PAGE) break;
+  }
+  return out;
+}
+
+/**
+ * Compares the local store with the agent's identifiers and credentials.
+ * With repair=true the store is rewritten to match KERIA, which stays the
+ * source of truth. Only 'vlei' credential records are considered. Admits
+ * holders sent for our grants from their own wallet are recorded on repair.
+ */
+export async function reconcile({ repair = false } = {}): Promise<DriftReport> {
+  const remoteAids = await listAllAids();
+  const localAids = await listAidsLocal();
+
+  const remoteByName = new Map<string, any>();
+  for (const a of remoteAids) if (a?.name) remoteByName.set(a.name, a);
+  const localByName = new Map(localAids.map((a) => [a.name, a]));
+
+  const aidMissingLocal = [...remoteByName.keys()].filter((n) => !localByName.has(n));
+  const aidMissingRemote = [...localByName.keys()].filter((n) => !remoteByName.has(n));
+  const aidMismatch = [...localByName.keys()].filter((n) => {
+    const r = remoteByName.get(n);
+    return r && extractPrefix(r) !== localByName.get(n)?.prefix;
+  });
+
+  const remoteCreds = (await listAllCredentials()).map(summarize);
+  const localCreds = (await listCredsLocal()).filter((c) => c.type === "vlei");
+
+  const remoteSaids = new Set(remoteCreds.map((c) => c.said));
+  const localSaids = new Set(localCreds.map((c) => c.said).filter(Boolean) as string[]);
+
+  const credMissingLocal = [...remoteSaids].filter((s) => !localSaids.has(s));
+  const credMissingRemote = [...localSaids].filter((s) => !remoteSaids.has(s));
+
+  const admits = await receivedAdmits({ record: repair });
+
+  if (repair) {
+    for (const name of [...aidMissingLocal, ...aidMismatch]) {
+      const r = remoteByName.get(name);
+      const prefix = extractPrefix(r);
+      if (prefix) await putAid({ name, prefix, transferable: r?.transferable });
+    }
+    for (const name of aidMissingRemote) await removeAid(name);
+
+    // map prefixes back to local aliases where we know them
+    const nameByPrefix = new Map<string, string>();
+    for (const [name, a] of remoteByName) {
+      const pre = extractPrefix(a);
+      if (pre) nameByPrefix.set(pre, name);
+    }
+    for (const c of remoteCreds.filter((c) => credMissingLocal.includes(c.said))) {
+      await addCredential({
+        said: c.said,
+        type: "vlei",
+        schema: c.schema,
+        issuer: nameByPrefix.get(c.issuer) ?? c.issuer,
+        holder: (c.holder && nameByPrefix.get(c.holder)) ?? c.holder ?? "",
+        subject: { LEI: c.lei, legalName: c.legalName, dt: c.dt },
+        time: c.dt ?? new Date().toISOString(),
+      });
+    }
+    for (const said of credMissingRemote) await removeCredential(said);
+  }
+
+  const report: DriftReport = {
+    at: new Date().toISOString(),
+    repaired: repair,
+    aids: {
+      missingLocal: aidMissingLocal,
+      missingRemote: aidMissingRemote,
+      prefixMismatch: aidMismatch,
+    },
+    creds: {
+      missingLocal: credMissingLocal,
+      missingRemote: credMissingRemote,
+    },
+    admits: {
+      missingLocal: admits.map((x) => x.said),
+    },
+  };
+
+  const drift =
+    aidMissingLocal.length + aidMissingRemote.length + aidMismatch.length +
+    credMissingLocal.length + credMissingRemote.length + admits.length;
+  if (drift) logger.warn("[reconcile] drift=%d %j", drift, report);
+  else logger.info("[reconcile] store in sync (aids=%d creds=%d)", remoteAids.length, remoteCreds.length);
+
+  return report;
+}
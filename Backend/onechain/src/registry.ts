@@ -3,16 +3,24 @@ import { logger } from "./logger.js";
 import { getClient } from "./signify.js";
 import { getAid } from "./aid.js";
 import { QVI_AID_NAME } from "./config.js";
+import { trackOperation } from "./operations.js";
+import { ApiError } from "./errors.js";
+import { isGroup, proposeRegistry } from "./multisig.js";
 
 const ISSUER_ALIAS = QVI_AID_NAME || "qvi";         // app’s issuer alias
 const REGISTRY_NAME = "vlei-reg";                   // registry alias to use
 const FALLBACK_SAID = process.env.REGISTRY_SAID || "";
 
+// the QVI keeps the historical "vlei-reg"; other issuers (e.g. LE for OOR/ECR auth) get their own
+export function registryNameFor(alias: string) {
+  return alias === ISSUER_ALIAS ? REGISTRY_NAME : `${alias}-${REGISTRY_NAME}`;
+}
+
 // normalize various return shapes into a SAID (string)
 function pickSaid(x: any): string | null {
   if (!x) return null;
   if (typeof x === "string") return x;
-  return x?.vcp?.d ?? x?.regk ?? x?.said ?? x?.d ?? null;
+  return x?.regser?.sad?.d ?? x?.vcp?.d ?? x?.regk ?? x?.said ?? x?.d ?? null;
 }
 
 async function listByAliasOrPrefix(client: any, alias: string, prefix?: string) {
@@ -35,26 +43,29 @@ async function listByAliasOrPrefix(client: any, alias: string, prefix?: string)
   return out;
 }
 
-export async function ensureRegistry(): Promise<string> {
+export async function ensureRegistry(issuerAlias: string = ISSUER_ALIAS): Promise<string> {
+  const alias = issuerAlias;
+  const registryName = registryNameFor(alias);
+
   const client = getClient();
   const registries = client.registries?.();
-  if (!registries) throw new Error("signify-ts missing registries() API");
+  if (!registries) throw new ApiError("REGISTRY_FAILED", "signify-ts missing registries() API");
 
   // Resolve issuer prefix from our alias (avoid “undefined” surprises)
-  const aid = await getAid(ISSUER_ALIAS);
+  const aid = await getAid(alias);
   const PREFIX = (aid as any)?.prefix ?? (aid as any)?.pre ?? null;
-  if (!PREFIX) throw new Error(`issuer AID not found: ${ISSUER_ALIAS}`);
+  if (!PREFIX) throw new ApiError("AID_NOT_FOUND", `issuer AID not found: ${alias}`);
 
   // 1) Already exists?
-  const existing = await listByAliasOrPrefix(client, ISSUER_ALIAS, PREFIX);
-  const named =    existing.find((r: any) => (r?.name ?? r?.vcp?.name) === REGISTRY_NAME) ??
+  const existing = await listByAliasOrPrefix(client, alias, PREFIX);
+  const named =    existing.find((r: any) => (r?.name ?? r?.vcp?.name) === registryName) ??
   existing[0];
 const said0 = pickSaid(named);
 if (said0) {
   logger.debug(
     "[registry] using existing (alias=%s, name=%s, said=%s)",
-    ISSUER_ALIAS,
-    REGISTRY_NAME,
+    alias,
+    registryName,
     said0
   );
   return said0;
@@ -62,15 +73,60 @@ if (said0) {
 
 // ----- Try multiple explicit, stringy signatures -----
 
+// 0. current signify-ts: create({ name: alias, registryName, noBackers })
+// Once this submits an inception, nothing below may create a second registry for the alias
+let submitted: string | null = null;
+try {
+  const body = { name: alias, registryName, noBackers: true };
+  logger.info("[registry] create(object-with-registryName) body=%j", body);
+  const res = await registries.create(body);
+  const said = pickSaid(res);
+  if (said) {
+    submitted = said;
+    const op = await res?.op?.();
+    if (isGroup(aid)) {
+      // other members must join the registry inception before it anchors
+      await proposeRegistry(alias, res);
+      const h = await trackOperation(op, "registry.create", { meta: { alias, registryName, said } });
+      throw new ApiError(
+        "REGISTRY_PENDING",
+        `registry ${said} for group ${alias} awaits member approval`,
+        { registry: said, operation: h?.name ?? null }
+      );
+    }
+    // issuance against a registry whose inception is not anchored yet fails
+    try {
+      await trackOperation(op, "registry.create", { wait: true, meta: { alias, registryName, said } });
+    } catch (e: any) {
+      if (!(e instanceof ApiError) || e.code !== "OPERATION_TIMEOUT") throw e;
+      throw new ApiError("REGISTRY_PENDING", `registry ${said} for ${alias} is not anchored yet`, {
+        registry: said,
+        operation: op?.name ?? null,
+      });
+    }
+    return said;
+  }
+  logger.warn("[registry] create(object-with-registryName) returned no SAID: %j", res);
+} catch (e: any) {
+  if (e instanceof ApiError) throw e; // pending registry or failed wait, not a create failure
+  if (submitted) {
+    throw new ApiError("REGISTRY_FAILED", `registry ${submitted} for ${alias}: ${e?.message ?? String(e)}`, { registry: submitted });
+  }
+  logger.warn(
+    "[registry] create(object-with-registryName) failed: %s",
+    e?.message ?? String(e)
+  );
+}
+
 // A. create(alias, { name, noBackers, estOnly })
 try {
-  const body = { name: REGISTRY_NAME, noBackers: true, estOnly: true };
+  const body = { name: registryName, noBackers: true, estOnly: true };
   logger.info(
     "[registry] create(alias, object) alias=%s body=%j",
-    ISSUER_ALIAS,
+    alias,
     body
   );
-  const res = await registries.create(ISSUER_ALIAS, body);
+  const res = await registries.create(alias, body);
   const said = pickSaid(res);
   if (said) return said;
   logger.warn("[registry] create(alias, object) returned no SAID: %j", res);
@@ -83,7 +139,7 @@ try {
 
 // B. create(prefix, { name, noBackers, estOnly })
 try {
-  const body = { name: REGISTRY_NAME, noBackers: true, estOnly: true };
+  const body = { name: registryName, noBackers: true, estOnly: true };
   logger.info(
     "[registry] create(prefix, object) prefix=%s body=%j",
     PREFIX,
@@ -103,8 +159,8 @@ try {
 // C. create({ alias, name, ... })
 try {
   const body = {
-    alias: ISSUER_ALIAS,
-    name: REGISTRY_NAME,
+    alias: alias,
+    name: registryName,
     noBackers: true,
     estOnly: true,
   };
@@ -124,7 +180,7 @@ try {
 try {
   const body = {
     controller: PREFIX,
-    name: REGISTRY_NAME,
+    name: registryName,
     noBackers: true,
     estOnly: true,
   };
@@ -143,13 +199,14 @@ try {
     );
   }
 
-  // Last resort: allow configured SAID
-  if (FALLBACK_SAID) {
+  // Last resort: allow configured SAID (QVI registry only)
+  if (FALLBACK_SAID && alias === ISSUER_ALIAS) {
     logger.warn("[registry] using REGISTRY_SAID override: %s", FALLBACK_SAID);
     return FALLBACK_SAID;
   }
 
-  throw new Error(
-    "ensureRegistry(): failed"
+  throw new ApiError(
+    "REGISTRY_FAILED",
+    `ensureRegistry(): failed for ${alias}`
   );
 }
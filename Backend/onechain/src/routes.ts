@@ -0,0 +1,1048 @@
+// src/routes.ts
+import express from "express";
+import { GEDA_AID_NAME, QVI_AID_NAME, QVI_LEI, BATCH_MAX_ROWS, BATCH_CONCURRENCY } from "./config.js";
+import { ApiError } from "./errors.js";
+import { validate, route, keria, allow, opStatus, wantsWait, csvBody } from "./middleware.js";
+import { document, type Method, type RouteSpec } from "./openapi.js";
+import { getAid, getOrCreateAid, rotateAid } from "./aid.js";
+import {
+  resolveDelegator,
+  createDelegatedAid,
+  listDelegationRequests,
+  approveDelegation,
+} from "./delegation.js";
+import { listRotations, appendAudit, getBinding, getCredLocal } from "./store.js";
+import { createChallenge, completeBinding, normalizeAddress } from "./bindings.js";
+import {
+  OOBI_ROLES,
+  aidOobis,
+  resolveOobi,
+  listContacts,
+  getContact,
+  createContact,
+  updateContact,
+  deleteContact,
+  type OobiRole,
+} from "./contacts.js";
+import {
+  issueQVI,
+  issueLegalEntityVLEI,
+  issueOOR,
+  issueECR,
+  getCredential,
+  getCredentialStatus,
+  revokeCredential,
+  ensureRecipient,
+  type VLEISubject,
+} from "./issuance.js";
+import { listCredentials, credentialCesr, vleiHash, MAX_PAGE_SIZE } from "./credentials.js";
+import { importCredential } from "./imports.js";
+import { createVleiBatch, getJob, retryJob } from "./jobs.js";
+import { checkLei, lookupLei, importGoldenCopy } from "./lei.js";
+import { verifyPresentation } from "./verify.js";
+import { reconcile } from "./reconcile.js";
+import { admitGrants, getIpexState } from "./ipex.js";
+import { getOperation } from "./operations.js";
+import { createGroup, listGroupRequests, approveGroupRequest, type GroupMember } from "./multisig.js";
+import {
+  checkWitnesses,
+  witnessHealth,
+  monitorStatus,
+  addPoolWitness,
+  removePoolWitness,
+  enablePoolWitness,
+} from "./witnesses.js";
+
+export const router = express.Router({ mergeParams: true });
+
+// Registers the route and its OpenAPI entry from the same spec (role + request schemas)
+function def(method: Method, path: string, spec: RouteSpec, ...handlers: express.RequestHandler[]) {
+  document(method, path, spec);
+  const checks = spec.body || spec.query ? [validate({ body: spec.body, query: spec.query })] : [];
+  router[method](path, allow(spec.role), ...(spec.csv ? [csvBody] : []), ...checks, ...handlers);
+}
+
+// ---- request schemas ----
+
+const name = { type: "string", minLength: 1 } as const;
+const optName = { type: "string", minLength: 1 } as const;
+const toad = { type: "integer", minimum: 0 } as const;
+const threshold = { anyOf: [{ type: "integer", minimum: 1 }, { type: "string" }, { type: "array", items: { type: "string" } }] };
+
+const InitBody = {
+  type: "object",
+  properties: {
+    qvi: { type: "object", properties: { name: name, lei: { type: "string", minLength: 20, maxLength: 20 } } },
+    root: { type: "object", properties: { name: name } },
+  },
+};
+
+const eid = { type: "string", pattern: "^[A-Za-z0-9_-]{44}$" } as const;
+
+const WitnessPolicy = {
+  type: "object",
+  properties: { min: { type: "integer", minimum: 1 }, preferred: { type: "array", items: eid }, toad },
+  additionalProperties: false,
+};
+
+const CreateAidBody = {
+  type: "object",
+  required: ["name"],
+  properties: { name, transferable: { type: "boolean" }, toad, delegator: name, witnesses: WitnessPolicy },
+};
+
+const RotateBody = {
+  type: "object",
+  properties: {
+    adds: { type: "array", items: name },
+    cuts: { type: "array", items: name },
+    toad,
+  },
+};
+
+const ApproveDelegationBody = {
+  type: "object",
+  required: ["delegate"],
+  properties: {
+    delegate: name,
+    sn: { type: "string", pattern: "^[0-9a-f]+$" },
+    said: name,
+  },
+};
+
+const AdmitBody = { type: "object", properties: { grantSaid: name } };
+
+const oobi = { type: "string", format: "uri", pattern: "/oobi/" } as const;
+
+const IssueVleiBody = {
+  type: "object",
+  required: ["name", "legalName", "lei"],
+  properties: { name, legalName: name, lei: { type: "string", minLength: 20, maxLength: 20 }, grant: { type: "boolean" }, issuer: name, oobi },
+};
+
+const IssueOorBody = {
+  type: "object",
+  required: ["le", "name", "personLegalName", "officialRole"],
+  properties: { le: name, name, personLegalName: name, officialRole: name, grant: { type: "boolean" }, oobi },
+};
+
+const IssueEcrBody = {
+  type: "object",
+  required: ["le", "name", "personLegalName", "engagementContextRole"],
+  properties: { le: name, name, personLegalName: name, engagementContextRole: name, grant: { type: "boolean" }, oobi },
+};
+
+const concurrency = { type: "integer", minimum: 1, maximum: 16 } as const;
+
+// one row per holder; CSV uploads use the same names as header columns
+const IssueVleiBatchBody = {
+  type: "array",
+  minItems: 1,
+  maxItems: BATCH_MAX_ROWS,
+  items: {
+    type: "object",
+    required: ["name", "legalName", "lei"],
+    properties: { name, legalName: name, lei: { type: "string", minLength: 20, maxLength: 20 }, oobi },
+    additionalProperties: false,
+  },
+};
+
+const IssueVleiBatchQuery = {
+  type: "object",
+  properties: { issuer: name, grant: { type: "boolean" }, concurrency },
+};
+
+const RetryJobQuery = { type: "object", properties: { concurrency } };
+
+const address = { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" } as const;
+const bytes32 = { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" } as const;
+
+const BindingChallengeBody = { type: "object", required: ["address", "aid"], properties: { address, aid: name } };
+
+const CompleteBindingBody = {
+  type: "object",
+  required: ["ethSignature"],
+  properties: {
+    ethSignature: { type: "string", pattern: "^0x[0-9a-fA-F]{130}$" },
+    aidSignatures: { type: "array", minItems: 1, items: name },
+    sign: { type: "boolean" },
+  },
+};
+
+const OobiQuery = { type: "object", properties: { role: { type: "string", enum: OOBI_ROLES } } };
+
+const ResolveOobiBody = { type: "object", required: ["oobi", "alias"], properties: { oobi, alias: name } };
+
+const ContactsQuery = { type: "object", properties: { group: name, field: name, value: { type: "string" } } };
+
+const CreateContactBody = {
+  type: "object",
+  required: ["oobi", "alias"],
+  properties: { oobi, alias: name },
+  additionalProperties: true,
+};
+
+const UpdateContactBody = { type: "object", minProperties: 1, additionalProperties: true };
+
+const RevokeBody = { type: "object", properties: { issuer: name, dt: { type: "string", format: "date-time" } } };
+
+const GroupBody = {
+  type: "object",
+  required: ["name", "member", "members"],
+  properties: {
+    name,
+    member: name,
+    members: {
+      type: "array",
+      minItems: 1,
+      items: {
+        anyOf: [
+          name,
+          { type: "object", required: ["oobi", "alias"], properties: { oobi: { type: "string", format: "uri" }, alias: name } },
+        ],
+      },
+    },
+    isith: threshold,
+    nsith: threshold,
+    toad,
+  },
+};
+
+const ApproveGroupBody = { type: "object", properties: { groupName: name } };
+
+const ReconcileBody = { type: "object", properties: { repair: { type: "boolean" } } };
+
+const WitnessesQuery = { type: "object", properties: { refresh: { type: "boolean" } } };
+
+const AddWitnessBody = {
+  type: "object",
+  anyOf: [{ required: ["eid", "url"] }, { required: ["oobi"] }],
+  properties: {
+    eid,
+    url: { type: "string", format: "uri" },
+    oobi: { type: "string", format: "uri" },
+    name,
+    enabled: { type: "boolean" },
+  },
+};
+
+const dateQuery = { type: "string", anyOf: [{ format: "date" }, { format: "date-time" }] };
+const CredentialsQuery = {
+  type: "object",
+  properties: {
+    issuer: name,
+    holder: name,
+    schema: name,
+    lei: name,
+    from: dateQuery,
+    to: dateQuery,
+    offset: { type: "integer", minimum: 0 },
+    limit: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE },
+  },
+};
+
+const ImportCredentialBody = {
+  type: "object",
+  required: ["cesr"],
+  properties: {
+    cesr: { type: "string", minLength: 1 },
+    said: name,
+    alias: name,
+    expectedLEI: { type: "string", minLength: 20, maxLength: 20 },
+    expectedSchema: name,
+  },
+};
+
+const VerifyPresentationBody = {
+  type: "object",
+  anyOf: [{ required: ["presentation"] }, { required: ["said"] }, { required: ["holder"] }],
+  properties: {
+    presentation: { type: "string", minLength: 1 },
+    said: name,
+    holder: name,
+    expectedLEI: { type: "string", minLength: 20, maxLength: 20 },
+    expectedSchema: name,
+    expectedVleiHash: bytes32,
+  },
+};
+
+const AidResponse = {
+  type: "object",
+  required: ["name", "prefix"],
+  properties: { name: { type: "string" }, prefix: { type: "string" }, state: { type: "object" } },
+  additionalProperties: true,
+};
+
+const VerdictResponse = {
+  type: "object",
+  required: ["ok", "verified", "said", "chain", "failures"],
+  properties: {
+    ok: { type: "boolean" },
+    verified: { type: "boolean" },
+    said: { type: "string" },
+    schema: { type: "string" },
+    lei: { type: "string", nullable: true },
+    vleiHash: { type: "string", nullable: true },
+    issuer: { type: "string" },
+    holder: { type: "string", nullable: true },
+    chain: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          said: { type: "string" },
+          schema: { type: "string" },
+          issuer: { type: "string" },
+          holder: { type: "string", nullable: true },
+          registry: { type: "string", nullable: true },
+          lei: { type: "string", nullable: true },
+          status: { type: "string", enum: ["issued", "revoked", "unknown"] },
+          edge: { type: "string" },
+          root: { type: "boolean" },
+        },
+      },
+    },
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["code", "message"],
+        properties: { code: { type: "string" }, said: { type: "string" }, message: { type: "string" }, detail: {} },
+      },
+    },
+    checkedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const JobResponse = {
+  type: "object",
+  required: ["ok", "job"],
+  properties: {
+    ok: { type: "boolean" },
+    retried: { type: "integer" },
+    job: {
+      type: "object",
+      required: ["id", "kind", "status", "total", "counts", "rows"],
+      properties: {
+        id: { type: "string" },
+        kind: { type: "string" },
+        status: { type: "string", enum: ["running", "done", "failed"] },
+        options: { type: "object" },
+        principal: { type: "string" },
+        created: { type: "string", format: "date-time" },
+        updated: { type: "string", format: "date-time" },
+        total: { type: "integer" },
+        counts: {
+          type: "object",
+          properties: { pending: { type: "integer" }, running: { type: "integer" }, done: { type: "integer" }, failed: { type: "integer" } },
+        },
+        rows: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["index", "input", "status", "aidCreated", "attempts"],
+            properties: {
+              index: { type: "integer" },
+              input: { type: "object" },
+              status: { type: "string", enum: ["pending", "running", "done", "failed"] },
+              aid: { type: "string", description: "holder prefix" },
+              aidCreated: { type: "boolean", description: "the holder AID was created by this job" },
+              said: { type: "string" },
+              vleiHash: { type: "string" },
+              error: {
+                type: "object",
+                properties: { code: { type: "string" }, message: { type: "string" }, detail: {} },
+              },
+              attempts: { type: "integer" },
+              updated: { type: "string", format: "date-time" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const LeiRecordSchema = {
+  type: "object",
+  required: ["lei", "legalName", "registrationStatus"],
+  properties: {
+    lei: { type: "string" },
+    legalName: { type: "string" },
+    registrationStatus: { type: "string", description: "ISSUED, PENDING_TRANSFER, LAPSED, RETIRED, ..." },
+    entityStatus: { type: "string" },
+    jurisdiction: { type: "string" },
+    managingLou: { type: "string" },
+    lastUpdate: { type: "string" },
+    nextRenewal: { type: "string" },
+  },
+};
+
+const GoldenCopySchema = {
+  type: "object",
+  required: ["file", "records", "imported"],
+  properties: {
+    file: { type: "string" },
+    size: { type: "integer" },
+    mtime: { type: "string", format: "date-time" },
+    records: { type: "integer" },
+    imported: { type: "string", format: "date-time" },
+  },
+};
+
+const LeiLookupResponse = {
+  type: "object",
+  required: ["ok", "lei", "valid", "record", "goldenCopy"],
+  properties: {
+    ok: { type: "boolean" },
+    lei: { type: "string" },
+    valid: { type: "boolean", description: "ISO 17442 structure and check digits" },
+    problem: { type: "string" },
+    record: { ...LeiRecordSchema, nullable: true },
+    goldenCopy: { ...GoldenCopySchema, nullable: true },
+  },
+};
+
+const OperationResponse = {
+  type: "object",
+  required: ["name", "kind", "done"],
+  properties: {
+    name: { type: "string" },
+    kind: { type: "string" },
+    done: { type: "boolean" },
+    error: { type: "string" },
+    metadata: {},
+    response: {},
+  },
+};
+
+// ---- bootstrap ----
+
+// POST /init  { qvi?: { name, lei }, root?: { name } }
+// root (GEDA) -> delegated QVI -> QVI credential issued by the root
+def("post", "/init", {
+  summary: "Bootstrap GEDA root, delegated QVI and the QVI credential",
+  tags: ["bootstrap"],
+  role: "admin",
+  body: InitBody,
+}, keria, route(async (req, res) => {
+  const qviName = String(req.body.qvi?.name ?? QVI_AID_NAME);
+  const qviLei = String(req.body.qvi?.lei ?? QVI_LEI);
+  const rootName = String(req.body.root?.name ?? GEDA_AID_NAME);
+
+  await getOrCreateAid(rootName, { transferable: true });
+  if (!(await getAid(qviName))) await createDelegatedAid(qviName, rootName);
+
+  await issueQVI(rootName, qviName, { lei: qviLei });
+
+  res.json({ ok: true, root: rootName, qvi: qviName, lei: qviLei });
+}));
+
+// ---- AIDs ----
+
+// POST /aids/create[?wait=true]  { name, transferable?, toad?, delegator? (alias | prefix | OOBI), witnesses?: { min?, preferred?, toad? } }
+def("post", "/aids/create", {
+  summary: "Create (or return) an AID, optionally delegated",
+  tags: ["aids"],
+  role: "admin",
+  body: CreateAidBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const b = req.body;
+  const delpre = b.delegator ? await resolveDelegator(b.delegator) : undefined;
+  const out = await getOrCreateAid(b.name, {
+    transferable: b.transferable ?? true,
+    toad: b.toad,
+    delpre,
+    witnesses: b.witnesses,
+    wait: wantsWait(req), // answers 202 unless ?wait=true, delegated or not
+  });
+  res.status(opStatus(out?.operation)).json({ ok: true, aid: out, operation: out?.operation ?? null });
+}));
+
+// POST /aids/:name/rotate[?wait=true]  { adds?, cuts?, toad? }
+def("post", "/aids/:name/rotate", {
+  summary: "Rotate keys, optionally adding/cutting witnesses",
+  tags: ["aids"],
+  role: "admin",
+  body: RotateBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const out = await rotateAid(req.params.name, {
+    adds: req.body.adds,
+    cuts: req.body.cuts,
+    toad: req.body.toad,
+    wait: wantsWait(req, true),
+  });
+  if (!out) throw new ApiError("AID_NOT_FOUND", `AID not found: ${req.params.name}`);
+  res.status(opStatus(out.operation)).json({ ok: true, ...out });
+}));
+
+// GET /aids/:name/rotations
+def("get", "/aids/:name/rotations", {
+  summary: "Rotation history recorded for an AID",
+  tags: ["aids"],
+  role: "reader",
+}, route(async (req, res) => {
+  res.json({ ok: true, name: req.params.name, rotations: await listRotations(req.params.name) });
+}));
+
+// GET /aids/:name/delegations  (pending requests for this delegator)
+def("get", "/aids/:name/delegations", {
+  summary: "Pending delegation requests for a delegator AID",
+  tags: ["delegation"],
+  role: "reader",
+}, keria, route(async (req, res) => {
+  const requests = await listDelegationRequests(req.params.name);
+  if (!requests) throw new ApiError("AID_NOT_FOUND", `AID not found: ${req.params.name}`);
+  res.json({ ok: true, delegator: req.params.name, requests });
+}));
+
+// POST /aids/:name/delegations/approve[?wait=true]  { delegate, sn?, said? }
+def("post", "/aids/:name/delegations/approve", {
+  summary: "Anchor (approve) a delegated event",
+  tags: ["delegation"],
+  role: "admin",
+  body: ApproveDelegationBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const out = await approveDelegation(req.params.name, req.body.delegate, {
+    sn: req.body.sn,
+    said: req.body.said,
+    wait: wantsWait(req, true),
+  });
+  if (!out) throw new ApiError("AID_NOT_FOUND", `AID not found: ${req.params.name}`);
+  res.status(opStatus(out.operation)).json({ ok: true, ...out });
+}));
+
+// POST /aids/:name/ipex/admit  { grantSaid? }
+def("post", "/aids/:name/ipex/admit", {
+  summary: "Admit pending IPEX grants for a holder AID",
+  tags: ["ipex"],
+  role: "issuer",
+  body: AdmitBody,
+}, keria, route(async (req, res) => {
+  if (!(await getAid(req.params.name))) throw new ApiError("AID_NOT_FOUND", `AID not found: ${req.params.name}`);
+  const admitted = await admitGrants(req.params.name, req.body.grantSaid);
+  res.json({ ok: true, admitted });
+}));
+
+// GET /aids/:name/oobi?role=agent|witness|controller
+def("get", "/aids/:name/oobi", {
+  summary: "OOBIs of a local AID for a role (agent end role is authorized on demand)",
+  tags: ["oobis"],
+  role: "reader",
+  query: OobiQuery,
+}, keria, route(async (req, res) => {
+  const role = (req.query.role as OobiRole | undefined) ?? "agent";
+  const out = await aidOobis(req.params.name, role);
+  if (!out) throw new ApiError("AID_NOT_FOUND", `AID not found: ${req.params.name}`);
+  res.json({ ok: true, name: req.params.name, ...out });
+}));
+
+// GET /aids/:name
+def("get", "/aids/:name", {
+  summary: "Get an AID by alias",
+  tags: ["aids"],
+  role: "reader",
+  response: AidResponse,
+}, keria, route(async (req, res) => {
+  const a = await getAid(req.params.name);
+  if (!a) throw new ApiError("AID_NOT_FOUND", `AID not found: ${req.params.name}`);
+  res.json(a);
+}));
+
+// ---- issuance ----
+
+// POST /issue/vlei[?wait=true]  { name, legalName, lei, grant?, issuer?, oobi? }
+def("post", "/issue/vlei", {
+  summary: "Issue a Legal Entity vLEI credential",
+  tags: ["issuance"],
+  role: "issuer",
+  body: IssueVleiBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const { name, legalName, lei } = req.body;
+  await checkLei(lei, legalName); // before a holder AID is created for it
+
+  // AID on demand (eth address can be used as name), or the holder's own wallet via OOBI/contact
+  await ensureRecipient(name, req.body.oobi);
+
+  const subject: VLEISubject = { legalName, lei };
+  const issuer = String(req.body.issuer ?? QVI_AID_NAME); // may be a multisig group alias
+  const out = await issueLegalEntityVLEI(issuer, name, subject, { grant: Boolean(req.body.grant), wait: wantsWait(req) });
+  res.status(opStatus(out.operation)).json({ ok: true, credential: out, operation: out.operation });
+}));
+
+// POST /issue/vlei/batch[?issuer=&grant=&concurrency=&wait=]  [{ name, legalName, lei, oobi? }, ...] | text/csv
+// answers with the job once it is stored; per-row outcomes via GET /jobs/:id
+def("post", "/issue/vlei/batch", {
+  summary: "Issue Legal Entity vLEI credentials for many holders as a background job",
+  tags: ["issuance"],
+  role: "issuer",
+  body: IssueVleiBatchBody,
+  query: IssueVleiBatchQuery,
+  csv: true,
+  response: JobResponse,
+  accepted: "GET /jobs/{id}",
+}, keria, route(async (req, res) => {
+  const { job, done } = await createVleiBatch(req.body, {
+    issuer: String(req.query.issuer ?? QVI_AID_NAME),
+    grant: Boolean(req.query.grant),
+    concurrency: Number(req.query.concurrency ?? BATCH_CONCURRENCY),
+  });
+  if (!wantsWait(req)) return res.status(202).json({ ok: true, job });
+  await done;
+  res.json({ ok: true, job: await getJob(job.id) });
+}));
+
+// GET /jobs/:id
+def("get", "/jobs/:id", {
+  summary: "Batch job with per-row status (holder AID, credential SAID, error)",
+  tags: ["issuance"],
+  role: "reader",
+  response: JobResponse,
+}, route(async (req, res) => {
+  const job = await getJob(req.params.id);
+  if (!job) throw new ApiError("JOB_NOT_FOUND", `job not found: ${req.params.id}`);
+  res.json({ ok: true, job });
+}));
+
+// POST /jobs/:id/retry[?concurrency=&wait=]  re-runs the failed rows only
+def("post", "/jobs/:id/retry", {
+  summary: "Retry the failed rows of a finished batch job",
+  tags: ["issuance"],
+  role: "issuer",
+  query: RetryJobQuery,
+  response: JobResponse,
+  accepted: "GET /jobs/{id}",
+}, keria, route(async (req, res) => {
+  const { job, retried, done } = await retryJob(req.params.id, req.query.concurrency ? Number(req.query.concurrency) : undefined);
+  if (!retried || !wantsWait(req)) return res.status(retried ? 202 : 200).json({ ok: true, retried, job });
+  await done;
+  res.json({ ok: true, retried, job: await getJob(job.id) });
+}));
+
+// POST /issue/oor  { le, name, personLegalName, officialRole, grant?, oobi? }
+def("post", "/issue/oor", {
+  summary: "Issue OOR-Auth and OOR credentials",
+  tags: ["issuance"],
+  role: "issuer",
+  body: IssueOorBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const { le, name, personLegalName, officialRole } = req.body;
+  await ensureRecipient(name, req.body.oobi);
+  const out = await issueOOR(le, name, { personLegalName, officialRole }, QVI_AID_NAME, {
+    grant: Boolean(req.body.grant),
+    wait: wantsWait(req),
+  });
+  res.status(opStatus(out.operation)).json({ ok: true, credential: out, operation: out.operation });
+}));
+
+// POST /issue/ecr  { le, name, personLegalName, engagementContextRole, grant?, oobi? }
+def("post", "/issue/ecr", {
+  summary: "Issue ECR-Auth and ECR credentials",
+  tags: ["issuance"],
+  role: "issuer",
+  body: IssueEcrBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const { le, name, personLegalName, engagementContextRole } = req.body;
+  await ensureRecipient(name, req.body.oobi);
+  const out = await issueECR(le, name, { personLegalName, engagementContextRole }, QVI_AID_NAME, {
+    grant: Boolean(req.body.grant),
+    wait: wantsWait(req),
+  });
+  res.status(opStatus(out.operation)).json({ ok: true, credential: out, operation: out.operation });
+}));
+
+// POST /credentials/:said/revoke[?wait=true]  { issuer?, dt? }
+def("post", "/credentials/:said/revoke", {
+  summary: "Revoke a credential",
+  tags: ["credentials"],
+  role: "issuer",
+  body: RevokeBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const said = req.params.said;
+  const before = await getCredentialStatus(said);
+  if (!before) throw new ApiError("CREDENTIAL_NOT_FOUND", `credential not found: ${said}`);
+  if (before.status === "revoked") throw new ApiError("CREDENTIAL_REVOKED", `credential already revoked: ${said}`, before);
+
+  const out = await revokeCredential(said, String(req.body.issuer ?? QVI_AID_NAME), req.body.dt, wantsWait(req));
+  if (!out) throw new ApiError("CREDENTIAL_NOT_FOUND", `credential not found: ${said}`);
+  res.status(opStatus(out.operation)).json({
+    ok: true,
+    said,
+    revocation: out?.rev?.sad ?? null,
+    operation: out.operation,
+  });
+}));
+
+// ---- OOBIs / contacts ----
+
+// POST /oobis/resolve[?wait=true]  { oobi, alias }
+def("post", "/oobis/resolve", {
+  summary: "Resolve a foreign OOBI into a contact",
+  tags: ["oobis"],
+  role: "issuer",
+  body: ResolveOobiBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const out = await resolveOobi(req.body.oobi, req.body.alias, wantsWait(req));
+  res.status(opStatus(out.operation)).json({ ok: true, ...out });
+}));
+
+// GET /contacts?group=&field=&value=
+def("get", "/contacts", {
+  summary: "List contacts, optionally grouped or filtered by a field",
+  tags: ["contacts"],
+  role: "reader",
+  query: ContactsQuery,
+}, keria, route(async (req, res) => {
+  const q = req.query as Record<string, any>;
+  res.json({ ok: true, contacts: await listContacts({ group: q.group, field: q.field, value: q.value }) });
+}));
+
+// POST /contacts  { oobi, alias, ...fields }
+def("post", "/contacts", {
+  summary: "Add a contact by resolving its OOBI; extra fields are stored on the contact",
+  tags: ["contacts"],
+  role: "issuer",
+  body: CreateContactBody,
+}, keria, route(async (req, res) => {
+  const { oobi, alias, ...info } = req.body;
+  res.json({ ok: true, ...(await createContact(oobi, alias, info)) });
+}));
+
+// GET /contacts/:pre
+def("get", "/contacts/:pre", {
+  summary: "Get a contact by prefix",
+  tags: ["contacts"],
+  role: "reader",
+}, keria, route(async (req, res) => {
+  const c = await getContact(req.params.pre);
+  if (!c) throw new ApiError("CONTACT_NOT_FOUND", `contact not found: ${req.params.pre}`);
+  res.json(c);
+}));
+
+// PUT /contacts/:pre  { ...fields }
+def("put", "/contacts/:pre", {
+  summary: "Update the fields of a contact",
+  tags: ["contacts"],
+  role: "issuer",
+  body: UpdateContactBody,
+}, keria, route(async (req, res) => {
+  const c = await updateContact(req.params.pre, req.body);
+  if (!c) throw new ApiError("CONTACT_NOT_FOUND", `contact not found: ${req.params.pre}`);
+  res.json({ ok: true, contact: c });
+}));
+
+// DELETE /contacts/:pre
+def("delete", "/contacts/:pre", {
+  summary: "Delete a contact",
+  tags: ["contacts"],
+  role: "issuer",
+}, keria, route(async (req, res) => {
+  if (!(await deleteContact(req.params.pre))) throw new ApiError("CONTACT_NOT_FOUND", `contact not found: ${req.params.pre}`);
+  res.json({ ok: true, deleted: req.params.pre });
+}));
+
+// ---- address bindings ----
+
+// POST /bindings/challenge  { address, aid }  -> message both the AID and the address sign
+def("post", "/bindings/challenge", {
+  summary: "Start binding an Ethereum address to an AID",
+  tags: ["bindings"],
+  role: "issuer",
+  body: BindingChallengeBody,
+}, keria, route(async (req, res) => {
+  const c = await createChallenge(req.body.address, req.body.aid);
+  res.json({ ok: true, challenge: { id: c.id, address: c.address, prefix: c.prefix, message: c.message, expires: c.expires } });
+}));
+
+// POST /bindings/:id/complete  { ethSignature, aidSignatures? | sign? }
+def("post", "/bindings/:id/complete", {
+  summary: "Verify the AID and EIP-191 signatures and store the binding",
+  tags: ["bindings"],
+  role: "issuer",
+  body: CompleteBindingBody,
+}, keria, route(async (req, res) => {
+  const binding = await completeBinding(req.params.id, {
+    ethSignature: req.body.ethSignature,
+    aidSignatures: req.body.aidSignatures,
+    sign: Boolean(req.body.sign),
+  });
+  res.json({ ok: true, binding });
+}));
+
+// GET /bindings/:address
+def("get", "/bindings/:address", {
+  summary: "AID bound to an Ethereum address",
+  tags: ["bindings"],
+  role: "reader",
+}, route(async (req, res) => {
+  const b = await getBinding(normalizeAddress(req.params.address));
+  if (!b) throw new ApiError("BINDING_NOT_FOUND", `no binding for ${req.params.address}`);
+  res.json({ ok: true, binding: b });
+}));
+
+// ---- multisig groups ----
+
+// POST /groups[?wait=true]  { name, member, members: [alias | prefix | { oobi, alias }], isith?, nsith?, toad? }
+def("post", "/groups", {
+  summary: "Incept a multisig group AID",
+  tags: ["groups"],
+  role: "admin",
+  body: GroupBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const b = req.body;
+  if (await getAid(b.name)) throw new ApiError("AID_EXISTS", `AID already exists: ${b.name}`);
+
+  const out = await createGroup(b.name, {
+    member: b.member,
+    members: b.members as GroupMember[],
+    isith: b.isith,
+    nsith: b.nsith,
+    toad: b.toad,
+    wait: wantsWait(req),
+  });
+  res.status(opStatus(out.operation)).json({ ok: true, group: out, operation: out.operation });
+}));
+
+// GET /groups/requests  (pending multisig icp/rot/vcp/iss from KERIA notifications)
+def("get", "/groups/requests", {
+  summary: "Pending multisig requests",
+  tags: ["groups"],
+  role: "reader",
+}, keria, route(async (_req, res) => {
+  res.json({ ok: true, requests: await listGroupRequests() });
+}));
+
+// POST /groups/requests/:said/approve[?wait=true]  { groupName? }
+def("post", "/groups/requests/:said/approve", {
+  summary: "Approve a pending multisig request",
+  tags: ["groups"],
+  role: "admin",
+  body: ApproveGroupBody,
+  accepted: true,
+}, keria, route(async (req, res) => {
+  const out = await approveGroupRequest(req.params.said, { groupName: req.body.groupName, wait: wantsWait(req) });
+  if (!out) throw new ApiError("GROUP_REQUEST_NOT_FOUND", `group request not found: ${req.params.said}`);
+  res.status(opStatus(out.operation)).json({ ok: true, ...out });
+}));
+
+// ---- witnesses ----
+
+// GET /witnesses[?refresh=true]  (monitor view: reachability, contacts, OOBIs for this tenant's agent)
+def("get", "/witnesses", {
+  summary: "Witness health as seen by the background monitor",
+  tags: ["witnesses"],
+  role: "reader",
+  query: WitnessesQuery,
+}, keria, route(async (req, res) => {
+  if (req.query.refresh) await checkWitnesses();
+  res.json({ ok: true, monitor: monitorStatus(), witnesses: witnessHealth() });
+}));
+
+// The pool is shared by all tenants, so changing it needs an admin not bound to one tenant
+function poolAdmin(res: express.Response) {
+  const p = res.locals.principal;
+  if (p?.tenant) throw new ApiError("FORBIDDEN", "witness pool changes need a principal not bound to a tenant");
+}
+
+// POST /admin/witnesses  { eid, url, name?, enabled? } | { oobi, name?, enabled? }
+def("post", "/admin/witnesses", {
+  summary: "Add (or replace) a witness in the pool and resolve its OOBI",
+  tags: ["witnesses"],
+  role: "admin",
+  body: AddWitnessBody,
+}, route(async (req, res) => {
+  poolAdmin(res);
+  const out = await addPoolWitness(req.body);
+  await appendAudit({ action: out.existed ? "witness.update" : "witness.add", target: out.witness.eid, detail: out.witness });
+  res.json({ ok: true, ...out });
+}));
+
+// DELETE /admin/witnesses/:eid
+def("delete", "/admin/witnesses/:eid", {
+  summary: "Remove a witness from the pool",
+  tags: ["witnesses"],
+  role: "admin",
+}, route(async (req, res) => {
+  poolAdmin(res);
+  const out = removePoolWitness(req.params.eid);
+  if (!out) throw new ApiError("WITNESS_NOT_FOUND", `witness not in pool: ${req.params.eid}`);
+  await appendAudit({ action: "witness.remove", target: req.params.eid });
+  res.json({ ok: true, ...out });
+}));
+
+// POST /admin/witnesses/:eid/disable | /enable
+for (const action of ["disable", "enable"] as const) {
+  def("post", `/admin/witnesses/:eid/${action}`, {
+    summary: action === "disable" ? "Stop selecting a witness for new AIDs" : "Select a disabled witness again",
+    tags: ["witnesses"],
+    role: "admin",
+  }, route(async (req, res) => {
+    poolAdmin(res);
+    const out = await enablePoolWitness(req.params.eid, action === "enable");
+    if (!out) throw new ApiError("WITNESS_NOT_FOUND", `witness not in pool: ${req.params.eid}`);
+    await appendAudit({ action: `witness.${action}`, target: req.params.eid });
+    res.json({ ok: true, ...out });
+  }));
+}
+
+// ---- operations / admin ----
+
+// GET /operations/:name
+def("get", "/operations/:name", {
+  summary: "KERIA operation state",
+  tags: ["operations"],
+  role: "reader",
+  response: OperationResponse,
+}, keria, route(async (req, res) => {
+  const op = await getOperation(req.params.name);
+  if (!op) throw new ApiError("OPERATION_NOT_FOUND", `operation not found: ${req.params.name}`);
+  res.json(op);
+}));
+
+// POST /admin/reconcile  { repair? }
+def("post", "/admin/reconcile", {
+  summary: "Reconcile the local store with KERIA",
+  tags: ["admin"],
+  role: "admin",
+  body: ReconcileBody,
+}, keria, route(async (req, res) => {
+  res.json({ ok: true, report: await reconcile({ repair: Boolean(req.body.repair) }) });
+}));
+
+// POST /admin/lei/import  re-reads GLEIF_GOLDEN_COPY_FILE even when it looks unchanged
+def("post", "/admin/lei/import", {
+  summary: "Re-import the GLEIF golden copy",
+  tags: ["admin"],
+  role: "admin",
+  response: { type: "object", required: ["ok", "goldenCopy"], properties: { ok: { type: "boolean" }, goldenCopy: GoldenCopySchema } },
+}, route(async (_req, res) => {
+  const goldenCopy = await importGoldenCopy(true);
+  await appendAudit({ action: "lei.import", target: goldenCopy.file, detail: { records: goldenCopy.records } });
+  res.json({ ok: true, goldenCopy });
+}));
+
+// GET /lei/:lei  (pre-issuance check: format and golden-copy record)
+def("get", "/lei/:lei", {
+  summary: "Check an LEI and look it up in the GLEIF golden copy",
+  tags: ["issuance"],
+  role: "reader",
+  response: LeiLookupResponse,
+}, route(async (req, res) => {
+  res.json({ ok: true, ...(await lookupLei(req.params.lei)) });
+}));
+
+// ---- credentials ----
+
+// GET /credentials?issuer=&holder=&schema=&lei=&from=&to=&offset=&limit=
+def("get", "/credentials", {
+  summary: "List credentials with filters and paging",
+  tags: ["credentials"],
+  role: "reader",
+  query: CredentialsQuery,
+}, keria, route(async (req, res) => {
+  const q = req.query as Record<string, any>;
+  const out = await listCredentials({
+    issuer: q.issuer,
+    holder: q.holder,
+    schema: q.schema,
+    lei: q.lei,
+    from: q.from,
+    to: q.to,
+    offset: q.offset,
+    limit: q.limit,
+  });
+  res.json({ ok: true, ...out });
+}));
+
+// GET /credentials/:said  (full ACDC + vleiHash)
+def("get", "/credentials/:said", {
+  summary: "Full ACDC of a credential with its on-chain vleiHash and checked GLEIF record",
+  tags: ["credentials"],
+  role: "reader",
+}, keria, route(async (req, res) => {
+  const c = await getCredential(req.params.said);
+  if (!c) throw new ApiError("CREDENTIAL_NOT_FOUND", `credential not found: ${req.params.said}`);
+  const local = await getCredLocal(req.params.said);
+  res.json({ ...c, vleiHash: vleiHash(c?.sad?.d, c?.sad?.a?.LEI), leiRecord: local?.leiRecord ?? null });
+}));
+
+// GET /credentials/:said/cesr  (ACDC + chain + issuer KELs + TELs, for evidence packages)
+def("get", "/credentials/:said/cesr", {
+  summary: "Credential with its chain, KELs and TELs as a CESR stream",
+  tags: ["credentials"],
+  role: "reader",
+  response: { type: "string" },
+  contentType: "application/json+cesr",
+}, keria, route(async (req, res) => {
+  const cesr = await credentialCesr(req.params.said);
+  res.attachment(`${req.params.said}.cesr`).type("application/json+cesr").send(cesr);
+}));
+
+// POST /credentials/import  { cesr, said?, alias?, expectedLEI?, expectedSchema? (default QVI) }
+// the stream must verify (see /verify/presentation); foreign KELs are resolved into the agent.
+// An imported QVI credential held by a local AID backs its Legal Entity issuance (qvi edge)
+def("post", "/credentials/import", {
+  summary: "Import a verified credential CESR stream (e.g. a QVI credential from an external root)",
+  tags: ["credentials"],
+  role: "issuer",
+  body: ImportCredentialBody,
+}, keria, route(async (req, res) => {
+  const out = await importCredential(req.body.cesr, {
+    said: req.body.said,
+    alias: req.body.alias,
+    expectedLEI: req.body.expectedLEI,
+    expectedSchema: req.body.expectedSchema,
+  });
+  res.json({ ok: true, ...out });
+}));
+
+// GET /credentials/:said/ipex  (recorded grant/admit exchanges; admits from external wallets once reconciled)
+def("get", "/credentials/:said/ipex", {
+  summary: "IPEX grant/admit state of a credential",
+  tags: ["credentials"],
+  role: "reader",
+}, route(async (req, res) => {
+  res.json(await getIpexState(req.params.said));
+}));
+
+// GET /credentials/:said/status
+def("get", "/credentials/:said/status", {
+  summary: "TEL status of a credential",
+  tags: ["credentials"],
+  role: "reader",
+}, keria, route(async (req, res) => {
+  const status = await getCredentialStatus(req.params.said);
+  if (!status) throw new ApiError("CREDENTIAL_NOT_FOUND", `credential not found: ${req.params.said}`);
+  res.json(status);
+}));
+
+// ---- verification ----
+
+// POST /verify/presentation  { presentation (CESR) | said | holder, expectedLEI?, expectedSchema? (default LE) }
+// 200 with verified=false and the failure reasons when the chain does not check out
+def("post", "/verify/presentation", {
+  summary: "Verify an ACDC presentation: signatures, TEL status, schema, edge chain and LEI",
+  tags: ["verify"],
+  role: "reader",
+  body: VerifyPresentationBody,
+  response: VerdictResponse,
+}, keria, route(async (req, res) => {
+  const verdict = await verifyPresentation({
+    presentation: req.body.presentation,
+    said: req.body.said,
+    holder: req.body.holder,
+    expectedLEI: req.body.expectedLEI,
+    expectedSchema: req.body.expectedSchema,
+    expectedVleiHash: req.body.expectedVleiHash,
+  });
+  res.json({ ok: true, ...verdict });
+}));
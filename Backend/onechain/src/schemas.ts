@@ -0,0 +1,139 @@
+// src/schemas.ts
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { Ajv, type ValidateFunction, type ErrorObject } from "ajv";
+import addFormats from "ajv-formats";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { getClient, waitOperation } from "./signify.js";
+import { SCHEMA_BASE_URL, SCHEMA_DIR } from "./config.js";
+
+export type FieldError = { field: string; message: string };
+
+// Thrown before issuance; index.ts maps it to 422 with the field errors.
+export class SchemaValidationError extends Error {
+  constructor(public schema: string, public errors: FieldError[]) {
+    super(`credential data does not match schema ${schema}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+const ajv = new Ajv({ strict: false, allErrors: true });
+addFormats.default(ajv);
+// vLEI schemas tag LEIs with this custom format
+ajv.addFormat("ISO 17442", /^[A-Z0-9]{18}[0-9]{2}$/);
+
+const cache = new Map<string, any>();
+const validators = new Map<string, ValidateFunction>();
+let localIndex: Map<string, string> | null = null; // $id -> file
+
+async function indexLocalDir(): Promise<Map<string, string>> {
+  if (localIndex) return localIndex;
+  const idx = new Map<string, string>();
+  try {
+    for (const f of await fs.readdir(SCHEMA_DIR)) {
+      if (!f.endsWith(".json")) continue;
+      try {
+        const doc = JSON.parse(await fs.readFile(join(SCHEMA_DIR, f), "utf8"));
+        if (typeof doc?.$id === "string") idx.set(doc.$id, join(SCHEMA_DIR, f));
+      } catch (e: any) {
+        logger.warn("[schema.local] skip %s: %s", f, e?.message ?? String(e));
+      }
+    }
+    logger.info("[schema.local] %d schemas in %s", idx.size, SCHEMA_DIR);
+  } catch {
+    logger.debug("[schema.local] no schema dir at %s", SCHEMA_DIR);
+  }
+  localIndex = idx;
+  return idx;
+}
+
+async function fromLocalDir(said: string): Promise<any | null> {
+  const file = (await indexLocalDir()).get(said);
+  if (!file) return null;
+  return JSON.parse(await fs.readFile(file, "utf8"));
+}
+
+async function fromAgent(said: string): Promise<any | null> {
+  const client = getClient();
+  try {
+    return await client.schemas().get(said);
+  } catch {
+    // not known to the agent yet: resolve the schema OOBI, then retry
+  }
+  try {
+    const op = await client.oobis().resolve(`${SCHEMA_BASE_URL}/oobi/${said}`, `schema-${said.slice(0, 6)}`);
+    await waitOperation(op, `schema OOBI ${said}`);
+    return await client.schemas().get(said);
+  } catch (e: any) {
+    logger.warn("[schema.oobi] %s: %s", said, e?.message ?? String(e));
+    return null;
+  }
+}
+
+/** Cached schema lookup: memory, then the local schema dir, then the agent (via OOBI). */
+export async function getSchema(said: string): Promise<any> {
+  const hit = cache.get(said);
+  if (hit) return hit;
+
+  const doc = (await fromLocalDir(said)) ?? (await fromAgent(said));
+  if (!doc) throw new ApiError("SCHEMA_UNRESOLVABLE", `schema not resolvable: ${said}`);
+
+  cache.set(said, doc);
+  logger.info("[schema] cached %s (%s)", said, doc?.title ?? "untitled");
+  return doc;
+}
+
+// The attribute block is `a`, which ACDC schemas declare as oneOf [SAID string, object].
+function attributeSchema(doc: any): any {
+  const a = doc?.properties?.a;
+  const variants = Array.isArray(a?.oneOf) ? a.oneOf : [a];
+  const obj = variants.find((v: any) => v?.type === "object");
+  if (!obj) throw new ApiError("SCHEMA_UNRESOLVABLE", `schema ${doc?.$id} has no attribute object`);
+  return obj;
+}
+
+async function validatorFor(said: string): Promise<ValidateFunction> {
+  const hit = validators.get(said);
+  if (hit) return hit;
+  const v = ajv.compile(attributeSchema(await getSchema(said)));
+  validators.set(said, v);
+  return v;
+}
+
+/** Ajv errors as dotted field paths, e.g. "a.LEI: must match format". */
+export function fieldErrors(errors: ErrorObject[] | null | undefined): FieldError[] {
+  return (errors ?? []).map((e) => {
+    const missing = e.keyword === "required" ? (e.params as any)?.missingProperty : null;
+    const path = e.instancePath.replace(/^\//, "").replace(/\//g, ".");
+    return {
+      field: missing ? [path, missing].filter(Boolean).join(".") : path || "(root)",
+      message: e.message ?? e.keyword,
+    };
+  });
+}
+
+/**
+ * Validates an attribute block (`a`, including `i`) before issuance.
+ * `d` is computed by the agent, so a placeholder is used when absent.
+ */
+export async function validateSubject(said: string, subject: Record<string, unknown>) {
+  const v = await validatorFor(said);
+  const candidate = { d: "#".repeat(44), ...subject };
+  if (v(candidate)) return;
+
+  const errors = fieldErrors(v.errors);
+  logger.warn("[schema.validate] %s rejected: %j", said, errors);
+  throw new SchemaValidationError(said, errors);
+}
+
+/** Warm the cache for the given schemas; failures are logged, not thrown. */
+export async function preloadSchemas(saids: string[]) {
+  for (const said of saids) {
+    try {
+      await validatorFor(said);
+    } catch (e: any) {
+      logger.warn("[schema.preload] %s: %s", said, e?.message ?? String(e));
+    }
+  }
+}
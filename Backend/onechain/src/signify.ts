@@ -1,19 +1,80 @@
 // src/signify.ts
 import signify from "signify-ts";
 import { logger } from "./logger.js";
+import { ApiError, isNetworkError } from "./errors.js";
 import {
   KERIA_ADMIN,
   KERIA_BOOT,
-  PASSCODE,
-  WITNESS_OOBIS,            // e.g. ['http://wan:5642/oobi/<EID>/witness', ...]
-  WITNESS_EIDS,             // e.g. ['BHNT...', 'BBOP...', 'BH4Z...']
   CONTACT_WAIT_TIMEOUT_MS,  // e.g. 60_000
   CONTACT_WAIT_POLL_MS,     // e.g. 500
+  OP_WAIT_TIMEOUT_MS,
+  CLIENT_POOL_MAX,
+  CLIENT_IDLE_TTL_MS,
 } from "./config.js";
+import { currentTenant, type TenantContext } from "./tenants.js";
+import { enabledWitnessEids, witnessOobis } from "./witness-pool.js";
 
 const { ready, SignifyClient, Tier } = signify;
 
-let clientRef: any = null;
+// One connected SignifyClient per tenant agent, LRU-capped and evicted when idle
+type PoolEntry = { client: any; lastUsed: number };
+const pool = new Map<string, PoolEntry>();
+const connecting = new Map<string, Promise<any>>();
+
+export type ClientEvent = "connect" | "evict";
+type ClientHook = (tenant: string, client: any) => void | Promise<void>;
+const hooks: Record<ClientEvent, ClientHook[]> = { connect: [], evict: [] };
+
+/** Registers a lifecycle hook for pooled clients (e.g. warm caches on connect). */
+export function onClientEvent(event: ClientEvent, fn: ClientHook) {
+  hooks[event].push(fn);
+}
+
+async function emit(event: ClientEvent, tenant: string, client: any) {
+  for (const fn of hooks[event]) {
+    try {
+      await fn(tenant, client);
+    } catch (e: any) {
+      logger.warn("[signify.pool] %s hook for %s failed: %s", event, tenant, e?.message ?? String(e));
+    }
+  }
+}
+
+function evict(tenant: string, reason: string) {
+  const entry = pool.get(tenant);
+  if (!entry) return;
+  pool.delete(tenant);
+  resetWitnessWarm(tenant);
+  logger.info("[signify.pool] evicted %s (%s), size=%d", tenant, reason, pool.size);
+  void emit("evict", tenant, entry.client);
+}
+
+function evictOverflow(keep: string) {
+  while (pool.size > Math.max(1, CLIENT_POOL_MAX)) {
+    let lru: string | null = null;
+    for (const [id, e] of pool) {
+      if (id === keep) continue;
+      if (!lru || e.lastUsed < pool.get(lru)!.lastUsed) lru = id;
+    }
+    if (!lru) return;
+    evict(lru, "pool full");
+  }
+}
+
+const sweeper = setInterval(() => {
+  const cutoff = Date.now() - CLIENT_IDLE_TTL_MS;
+  for (const [id, e] of pool) if (e.lastUsed < cutoff) evict(id, "idle");
+}, Math.min(CLIENT_IDLE_TTL_MS, 60_000));
+sweeper.unref();
+
+export function pooledTenants(): string[] {
+  return Array.from(pool.keys());
+}
+
+// Pooled client without refreshing lastUsed, so background jobs never keep an idle tenant alive
+export function pooledClient(tenant: string): any | null {
+  return pool.get(tenant)?.client ?? null;
+}
 
 
 function uniq<T>(arr: T[]): T[] {
@@ -25,10 +86,10 @@ function normalizeBootBase(u: string) {
   return u.replace(/\/+boot\/?$/, "");
 }
 
-function makeClient() {
+function makeClient(tenant: TenantContext) {
   return new SignifyClient(
     KERIA_ADMIN,
-    PASSCODE,
+    tenant.bran,
     Tier.low,
     normalizeBootBase(KERIA_BOOT)
   );
@@ -41,7 +102,7 @@ function eidFromOobi(u: string): string | null {
 
 function oobiMap() {
   const map = new Map<string, string>();
-  (Array.isArray(WITNESS_OOBIS) ? WITNESS_OOBIS : []).forEach((u) => {
+  witnessOobis().forEach((u) => {
     const pre = eidFromOobi(String(u));
     if (pre) map.set(pre, u);
   });
@@ -58,8 +119,9 @@ async function resolveOobi(client: any, url: string, aliasPrefix = "wit") {
   }
 }
 
-export async function refreshWitnessOobis(client: any) {
-  const list = (Array.isArray(WITNESS_OOBIS) ? WITNESS_OOBIS : []).filter(Boolean);
+// all enabled pool witnesses by default; pass `oobis` to resolve just new entries
+export async function refreshWitnessOobis(client: any, oobis: string[] = witnessOobis()) {
+  const list = oobis.filter(Boolean);
   const endList = uniq(
     list
       .map((u) => u.replace(/\/witness\/?$/, "/end"))
@@ -94,11 +156,25 @@ export type SelectWitnessesOpts = {
   forceStable?: boolean;
 };
 
-let _witnessWarm = false;
-let _lastStable: string[] = [];
-export function resetWitnessWarm() {
-  _witnessWarm = false;
-  _lastStable = [];
+// per tenant agent: contacts are agent state
+const _witnessWarm = new Set<string>();
+const _lastStable = new Map<string, string[]>();
+export function resetWitnessWarm(tenant: string = currentTenant().id) {
+  _witnessWarm.delete(tenant);
+  _lastStable.delete(tenant);
+}
+
+export function witnessWarmState(tenant: string = currentTenant().id) {
+  return { warm: _witnessWarm.has(tenant), lastStable: _lastStable.get(tenant) ?? [] };
+}
+
+// Available witnesses for a tenant as seen by the witness monitor (null = no view yet)
+export type WitnessView = (tenant: string, want: string[]) => string[] | null;
+let witnessView: WitnessView | null = null;
+
+/** Lets prepareWitnessArgs skip the contact poll when the monitor already has enough witnesses. */
+export function useWitnessView(fn: WitnessView) {
+  witnessView = fn;
 }
 
 async function fastKnown(client: any, want: string[], logPrefix: string) {
@@ -125,7 +201,7 @@ async function fastKnown(client: any, want: string[], logPrefix: string) {
 }
 export async function selectWitnessesFor(
   toadRequired = 2,
-  desiredEids: string[] = WITNESS_EIDS,
+  desiredEids: string[] = enabledWitnessEids(),
   {
     timeoutMs = CONTACT_WAIT_TIMEOUT_MS,
     pollMs = CONTACT_WAIT_POLL_MS,
@@ -136,6 +212,7 @@ export async function selectWitnessesFor(
     forceStable = false,
   }: SelectWitnessesOpts = {}
 ): Promise<{ wits: string[]; toad: number }> {
+  const tenant = currentTenant().id;
   const client = getClient();
   const want = uniq(desiredEids);
   const oobis = oobiMap();
@@ -144,7 +221,7 @@ export async function selectWitnessesFor(
     return { wits: [], toad: 0 };
   }
 
-  if (_witnessWarm && stableOnce && !forceStable) {
+  if (_witnessWarm.has(tenant) && stableOnce && !forceStable) {
     const have = await fastKnown(client, want, logPrefix);
     const clampedToad = Math.min(toadRequired, have.length);
     return { wits: have, toad: clampedToad };
@@ -213,8 +290,8 @@ export async function selectWitnessesFor(
       logger.info("[%s] satisfied (stable) after %d iters: have=%d/%d wits=%j",
         logPrefix, iter, stable.length, toadRequired, stable);
 
-      _witnessWarm = true;
-      _lastStable = stable.slice();
+      _witnessWarm.add(tenant);
+      _lastStable.set(tenant, stable.slice());
 
       return { wits: stable, toad: toadRequired };
     }
@@ -252,52 +329,105 @@ export async function selectWitnessesFor(
     missing,
     snapshot
   );
-  throw new Error(
-    `Not enough STABLE witnesses: stable=${stable.length} need=${toadRequired}; missing=${JSON.stringify(missing)}`
+  throw new ApiError(
+    "WITNESS_UNAVAILABLE",
+    `Not enough STABLE witnesses: stable=${stable.length} need=${toadRequired}`,
+    { missing }
   );
 }
 
-export async function ensureBootStrictAndConnect() {
-  await ready();
-  if (clientRef) return clientRef;
-
-  const client = makeClient();
+async function bootAndConnect(tenant: TenantContext) {
+  const client = makeClient(tenant);
 
   let needBoot = false;
   try {
     await client.state();
-    logger.info("[signify] agent exists");
+    logger.info("[signify] agent exists (tenant=%s)", tenant.id);
   } catch (e: any) {
     if (String(e?.message ?? e).includes("agent does not exist")) needBoot = true;
+    else if (isNetworkError(e)) throw new ApiError("KERIA_UNREACHABLE", `KERIA agent API unreachable at ${KERIA_ADMIN}`);
     else throw e;
   }
 
   if (needBoot) {
-    logger.info("[signify] strict boot via /boot …");
+    logger.info("[signify] strict boot via /boot (tenant=%s) …", tenant.id);
     await client.boot();
     logger.info("[signify] boot OK");
   }
 
   await client.connect();
-  logger.info("[signify] connect OK");
+  logger.info("[signify] connect OK (tenant=%s)", tenant.id);
 
   await refreshWitnessOobis(client);
+  return client;
+}
 
-  clientRef = client;
-  return clientRef;
+export async function ensureBootStrictAndConnect(tenant: TenantContext = currentTenant()) {
+  await ready();
+  const entry = pool.get(tenant.id);
+  if (entry) {
+    entry.lastUsed = Date.now();
+    return entry.client;
+  }
+
+  // concurrent first requests for a tenant share one boot/connect
+  let pending = connecting.get(tenant.id);
+  if (!pending) {
+    pending = bootAndConnect(tenant)
+      .then(async (client) => {
+        pool.set(tenant.id, { client, lastUsed: Date.now() });
+        evictOverflow(tenant.id);
+        await emit("connect", tenant.id, client);
+        return client;
+      })
+      .finally(() => connecting.delete(tenant.id));
+    connecting.set(tenant.id, pending);
+  }
+  return pending;
 }
 
-export function getClient(): any {
-  if (!clientRef) throw new Error("signify client not connected");
-  return clientRef;
+export function getClient(tenant: TenantContext = currentTenant()): any {
+  const entry = pool.get(tenant.id);
+  if (!entry) throw new ApiError("KERIA_UNREACHABLE", `signify client not connected (tenant=${tenant.id})`);
+  entry.lastUsed = Date.now();
+  return entry.client;
 }
 
 
 export async function prepareWitnessArgs(
   toadRequired = 2,
-  desiredEids: string[] = WITNESS_EIDS,
+  desiredEids: string[] = enabledWitnessEids(),
   opts?: SelectWitnessesOpts
 ): Promise<{ wits: string[]; toad: number }> {
   await ensureBootStrictAndConnect(); // no-op if already connected
+
+  const tenant = currentTenant().id;
+  const have = toadRequired > 0 && !opts?.forceStable ? witnessView?.(tenant, uniq(desiredEids)) : null;
+  if (have && have.length >= toadRequired) {
+    logger.info("[%s.monitor] available=%d/%d wits=%j", opts?.logPrefix ?? "contacts.wait", have.length, toadRequired, have);
+    _witnessWarm.add(tenant);
+    _lastStable.set(tenant, have.slice());
+    return { wits: have, toad: toadRequired };
+  }
   return selectWitnessesFor(toadRequired, desiredEids, opts);
-}
\ No newline at end of file
+}
+
+// Waits for a KERIA long-running operation; no-op for missing/finished ops.
+export async function waitOperation(
+  op: any,
+  what = "operation",
+  timeoutMs = OP_WAIT_TIMEOUT_MS
+): Promise<any> {
+  if (!op || op.done) return op;
+  const client = getClient();
+  const signal = AbortSignal.timeout(timeoutMs);
+  try {
+    return await client.operations().wait(op, { signal });
+  } catch (e: any) {
+    // only our deadline is a timeout; agent and network errors keep their own mapping (toApiError)
+    if (signal.aborted || e?.name === "TimeoutError" || e?.name === "AbortError") {
+      throw new ApiError("OPERATION_TIMEOUT", `${what} did not complete within ${timeoutMs}ms`, { operation: op.name });
+    }
+    throw e;
+  }
+}
@@ -1,50 +1,682 @@
-import { promises as fs } from 'node:fs';
-import { dirname } from 'node:path';
+import { existsSync, mkdirSync, readFileSync, renameSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import { DEFAULT_TENANT } from './config.js';
+import { currentTenant } from './tenants.js';
+import { currentPrincipal } from './auth.js';
 
-const DB_PATH = '/app/data/store.json';
+const DB_PATH = process.env.STORE_DB_PATH ?? '/app/data/onechain.db';
+// pre-SQLite JSON store, imported once on first open
+const LEGACY_JSON_PATH = process.env.STORE_LEGACY_JSON ?? '/app/data/store.json';
 
-type AidInfo = { name: string; prefix: string; transferable?: boolean };
-type CredInfo = { said?: string; type: 'vlei' | 'eth'; issuer: string; holder: string; subject: any; time: string };
+export type AidInfo = { name: string; prefix: string; transferable?: boolean };
+export type CredInfo = { said?: string; type: 'vlei' | 'eth'; schema?: string; issuer: string; holder: string; subject: any; time: string; issuedBy?: string; leiRecord?: LeiMatch };
+export type OpInfo = { name: string; kind: string; done: boolean; error?: string; meta?: any; created: string; updated: string };
+export type ExchangeInfo = { said: string; credential: string; route: 'grant' | 'admit'; sender: string; recipient: string; time: string; prior?: string };
+export type RotationInfo = { name: string; prefix: string; sn: number; keys: string[]; next: string[]; wits: string[]; toad: number; at: string };
+// Proven link between an Ethereum address and an AID (see bindings.ts for the signed message)
+export type BindingInfo = { address: string; prefix: string; name?: string; message: string; aidSignatures: string[]; ethSignature: string; created: string };
+export type BindingChallenge = { id: string; address: string; prefix: string; name?: string; message: string; created: string; expires: string };
+// Credential brought in as a CESR stream (imports.ts); `cesr` is the verified stream as received
+export type ImportInfo = { said: string; schema: string; issuer: string; holder?: string; lei?: string; cesr: string; verdict: any; imported: string };
+// actor = AID alias acting; principal = authenticated API caller (defaults to the current request's)
+export type JobStatus = 'running' | 'done' | 'failed';
+export type JobRowStatus = 'pending' | 'running' | 'done' | 'failed';
+export type JobInfo = { id: string; kind: string; status: JobStatus; options: any; principal?: string; created: string; updated: string };
+export type JobRow = {
+  index: number;
+  input: any;
+  status: JobRowStatus;
+  aid?: string;               // holder prefix
+  aidCreated: boolean;        // the job created the holder AID
+  said?: string;
+  vleiHash?: string;
+  error?: { code: string; message: string; detail?: unknown };
+  attempts: number;
+  updated: string;
+};
 
-type Db = {
-  aids: Record<string, AidInfo>;
-  creds: CredInfo[];
+// GLEIF LEI-CDF record (lei.ts), as imported from the golden copy
+export type LeiRecord = {
+  lei: string;
+  legalName: string;
+  registrationStatus: string; // ISSUED, LAPSED, RETIRED, ...
+  entityStatus?: string;
+  jurisdiction?: string;
+  managingLou?: string;
+  lastUpdate?: string;
+  nextRenewal?: string;
 };
+export type LeiSource = { file: string; size: number; mtime: string; records: number; imported: string };
+// golden-copy record an LE credential was checked against, kept with the credential
+export type LeiMatch = { record: LeiRecord; source: { file: string; imported: string }; checked: string };
+
+export type AuditEntry = { id?: number; at?: string; action: string; actor?: string; target?: string; detail?: any; principal?: string };
+
+// append-only; PRAGMA user_version = number of applied entries
+const MIGRATIONS: string[] = [
+  `CREATE TABLE aids (
+     name         TEXT PRIMARY KEY,
+     prefix       TEXT NOT NULL,
+     transferable INTEGER
+   );
+   CREATE INDEX aids_prefix ON aids(prefix);
+
+   CREATE TABLE creds (
+     id      INTEGER PRIMARY KEY AUTOINCREMENT,
+     said    TEXT UNIQUE,
+     type    TEXT NOT NULL,
+     schema  TEXT,
+     issuer  TEXT NOT NULL,
+     holder  TEXT NOT NULL,
+     lei     TEXT,
+     subject TEXT NOT NULL,
+     time    TEXT NOT NULL
+   );
+   CREATE INDEX creds_issuer ON creds(issuer);
+   CREATE INDEX creds_holder ON creds(holder);
+   CREATE INDEX creds_lei    ON creds(lei);
+
+   CREATE TABLE operations (
+     name    TEXT PRIMARY KEY,
+     kind    TEXT NOT NULL,
+     done    INTEGER NOT NULL DEFAULT 0,
+     error   TEXT,
+     meta    TEXT,
+     created TEXT NOT NULL,
+     updated TEXT NOT NULL
+   );
+
+   CREATE TABLE audit (
+     id     INTEGER PRIMARY KEY AUTOINCREMENT,
+     at     TEXT NOT NULL,
+     action TEXT NOT NULL,
+     actor  TEXT,
+     target TEXT,
+     detail TEXT
+   );
+   CREATE INDEX audit_target ON audit(target);`,
+
+  `CREATE TABLE exchanges (
+     said       TEXT PRIMARY KEY,
+     credential TEXT NOT NULL,
+     route      TEXT NOT NULL,
+     sender     TEXT NOT NULL,
+     recipient  TEXT NOT NULL,
+     prior      TEXT,
+     time       TEXT NOT NULL
+   );
+   CREATE INDEX exchanges_credential ON exchanges(credential);`,
+
+  `CREATE TABLE rotations (
+     id     INTEGER PRIMARY KEY AUTOINCREMENT,
+     name   TEXT NOT NULL,
+     prefix TEXT NOT NULL,
+     sn     INTEGER NOT NULL,
+     keys   TEXT NOT NULL,
+     next   TEXT NOT NULL,
+     wits   TEXT NOT NULL,
+     toad   INTEGER NOT NULL,
+     at     TEXT NOT NULL
+   );
+   CREATE INDEX rotations_name ON rotations(name);`,
+
+  `ALTER TABLE creds ADD COLUMN issued_by TEXT;
+   ALTER TABLE audit ADD COLUMN principal TEXT;`,
+
+  `CREATE TABLE bindings (
+     address  TEXT PRIMARY KEY,
+     prefix   TEXT NOT NULL,
+     name     TEXT,
+     message  TEXT NOT NULL,
+     aid_sigs TEXT NOT NULL,
+     eth_sig  TEXT NOT NULL,
+     created  TEXT NOT NULL
+   );
+   CREATE INDEX bindings_prefix ON bindings(prefix);
+
+   CREATE TABLE binding_challenges (
+     id      TEXT PRIMARY KEY,
+     address TEXT NOT NULL,
+     prefix  TEXT NOT NULL,
+     name    TEXT,
+     message TEXT NOT NULL,
+     created TEXT NOT NULL,
+     expires TEXT NOT NULL
+   );`,
+
+  `CREATE TABLE imports (
+     said     TEXT PRIMARY KEY,
+     schema   TEXT NOT NULL,
+     issuer   TEXT NOT NULL,
+     holder   TEXT,
+     lei      TEXT,
+     cesr     TEXT NOT NULL,
+     verdict  TEXT NOT NULL,
+     imported TEXT NOT NULL
+   );
+   CREATE INDEX imports_lei ON imports(lei);
+
+   CREATE TABLE imported_kels (
+     prefix  TEXT PRIMARY KEY,
+     sn      INTEGER NOT NULL,
+     cesr    TEXT NOT NULL,
+     updated TEXT NOT NULL
+   );`,
+
+  `CREATE TABLE jobs (
+     id        TEXT PRIMARY KEY,
+     kind      TEXT NOT NULL,
+     status    TEXT NOT NULL,
+     options   TEXT NOT NULL,
+     principal TEXT,
+     created   TEXT NOT NULL,
+     updated   TEXT NOT NULL
+   );
+
+   CREATE TABLE job_rows (
+     job         TEXT NOT NULL,
+     idx         INTEGER NOT NULL,
+     input       TEXT NOT NULL,
+     status      TEXT NOT NULL,
+     aid         TEXT,
+     aid_created INTEGER NOT NULL DEFAULT 0,
+     said        TEXT,
+     vlei_hash   TEXT,
+     error       TEXT,
+     attempts    INTEGER NOT NULL DEFAULT 0,
+     updated     TEXT NOT NULL,
+     PRIMARY KEY (job, idx)
+   );`,
 
-async function ensureFile() {
-  try { await fs.mkdir(dirname(DB_PATH), { recursive: true }); } catch {}
-  try { await fs.access(DB_PATH); } catch { await fs.writeFile(DB_PATH, JSON.stringify({ aids: {}, creds: [] } as Db, null, 2)); }
+  `ALTER TABLE creds ADD COLUMN lei_record TEXT;`,
+];
+
+// GLEIF golden copy: one database shared by all tenants, replaced wholesale on import
+const LEI_DB_PATH = process.env.LEI_DB_PATH ?? join(dirname(DB_PATH), 'gleif.db');
+
+const LEI_MIGRATIONS: string[] = [
+  `CREATE TABLE lei_records (
+     lei    TEXT PRIMARY KEY,
+     record TEXT NOT NULL
+   );
+
+   CREATE TABLE lei_source (
+     id       INTEGER PRIMARY KEY CHECK (id = 1),
+     file     TEXT NOT NULL,
+     size     INTEGER NOT NULL,
+     mtime    TEXT NOT NULL,
+     records  INTEGER NOT NULL,
+     imported TEXT NOT NULL
+   );`,
+];
+
+// one database per tenant; the default tenant keeps the original file
+const dbs = new Map<string, Database.Database>();
+
+function dbPathFor(tenant: string) {
+  return tenant === DEFAULT_TENANT ? DB_PATH : join(dirname(DB_PATH), 'tenants', `${tenant}.db`);
+}
+
+function migrate(db: Database.Database, migrations = MIGRATIONS) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let v = current; v < migrations.length; v++) {
+    db.transaction(() => {
+      db.exec(migrations[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+    logger.info('[store] migrated to v%d', v + 1);
+  }
 }
 
-async function readDb(): Promise<Db> {
-  await ensureFile();
-  const buf = await fs.readFile(DB_PATH, 'utf8');
-  try { return JSON.parse(buf) as Db; } catch { return { aids: {}, creds: [] }; }
+function importLegacyJson(db: Database.Database) {
+  if (!existsSync(LEGACY_JSON_PATH)) return;
+
+  let legacy: { aids?: Record<string, AidInfo>; creds?: CredInfo[] };
+  try { legacy = JSON.parse(readFileSync(LEGACY_JSON_PATH, 'utf8')); }
+  catch (e: any) {
+    logger.warn('[store] legacy %s unreadable, not imported: %s', LEGACY_JSON_PATH, e?.message ?? String(e));
+    return;
+  }
+
+  const aids = Object.values(legacy.aids ?? {});
+  const creds = legacy.creds ?? [];
+  db.transaction(() => {
+    for (const a of aids) insertAid(db, a);
+    for (const c of creds) insertCred(db, c);
+  })();
+  renameSync(LEGACY_JSON_PATH, `${LEGACY_JSON_PATH}.imported`);
+  logger.info('[store] imported legacy store.json (aids=%d creds=%d)', aids.length, creds.length);
+}
+
+function open(tenant: string = currentTenant().id): Database.Database {
+  const hit = dbs.get(tenant);
+  if (hit) return hit;
+  const path = dbPathFor(tenant);
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  if (tenant === DEFAULT_TENANT) importLegacyJson(db);
+  dbs.set(tenant, db);
+  return db;
 }
 
-async function writeDb(db: Db) {
-  await ensureFile();
-  await fs.writeFile(DB_PATH, JSON.stringify(db, null, 2));
+/** Runs fn inside one SQLite transaction; fn must be synchronous. */
+export function transaction<T>(fn: () => T): T {
+  return open().transaction(fn)();
+}
+
+function insertAid(db: Database.Database, info: AidInfo) {
+  db.prepare(
+    `INSERT INTO aids (name, prefix, transferable) VALUES (@name, @prefix, @transferable)
+     ON CONFLICT(name) DO UPDATE SET prefix = excluded.prefix, transferable = excluded.transferable`
+  ).run({ name: info.name, prefix: info.prefix, transferable: info.transferable === undefined ? null : Number(info.transferable) });
+}
+
+function insertCred(db: Database.Database, rec: CredInfo) {
+  const row = {
+    said: rec.said ?? null,
+    type: rec.type,
+    schema: rec.schema ?? null,
+    issuer: rec.issuer,
+    holder: rec.holder,
+    lei: rec.subject?.LEI ?? rec.subject?.lei ?? null,
+    subject: JSON.stringify(rec.subject ?? {}),
+    time: rec.time,
+    issued_by: rec.issuedBy ?? null,
+    lei_record: rec.leiRecord ? JSON.stringify(rec.leiRecord) : null,
+  };
+  db.prepare(
+    `INSERT INTO creds (said, type, schema, issuer, holder, lei, subject, time, issued_by, lei_record)
+     VALUES (@said, @type, @schema, @issuer, @holder, @lei, @subject, @time, @issued_by, @lei_record)
+     ON CONFLICT(said) DO UPDATE SET type = excluded.type, schema = excluded.schema, issuer = excluded.issuer,
+       holder = excluded.holder, lei = excluded.lei, subject = excluded.subject, time = excluded.time,
+       issued_by = COALESCE(excluded.issued_by, creds.issued_by),
+       lei_record = COALESCE(excluded.lei_record, creds.lei_record)`
+  ).run(row);
+}
+
+function toAid(r: any): AidInfo {
+  return { name: r.name, prefix: r.prefix, ...(r.transferable === null ? {} : { transferable: Boolean(r.transferable) }) };
+}
+
+function toCred(r: any): CredInfo {
+  return {
+    ...(r.said ? { said: r.said } : {}),
+    type: r.type,
+    ...(r.schema ? { schema: r.schema } : {}),
+    issuer: r.issuer,
+    holder: r.holder,
+    subject: JSON.parse(r.subject),
+    time: r.time,
+    ...(r.issued_by ? { issuedBy: r.issued_by } : {}),
+    ...(r.lei_record ? { leiRecord: JSON.parse(r.lei_record) } : {}),
+  };
+}
+
+function toOp(r: any): OpInfo {
+  return {
+    name: r.name,
+    kind: r.kind,
+    done: Boolean(r.done),
+    ...(r.error ? { error: r.error } : {}),
+    ...(r.meta ? { meta: JSON.parse(r.meta) } : {}),
+    created: r.created,
+    updated: r.updated,
+  };
 }
 
 export async function putAid(info: AidInfo) {
-  const db = await readDb();
-  db.aids[info.name] = info;
-  await writeDb(db);
+  insertAid(open(), info);
+}
+
+export async function removeAid(name: string) {
+  open().prepare('DELETE FROM aids WHERE name = ?').run(name);
+}
+
+export async function listAidsLocal(): Promise<AidInfo[]> {
+  return open().prepare('SELECT * FROM aids ORDER BY name').all().map(toAid);
 }
 
 export async function getAidLocal(name: string): Promise<AidInfo | undefined> {
-  const db = await readDb();
-  return db.aids[name];
+  const r = open().prepare('SELECT * FROM aids WHERE name = ?').get(name);
+  return r ? toAid(r) : undefined;
 }
 
 export async function addCredential(rec: CredInfo) {
-  const db = await readDb();
-  db.creds.push(rec);
-  await writeDb(db);
+  insertCred(open(), rec);
+}
+
+export async function removeCredential(said: string) {
+  open().prepare('DELETE FROM creds WHERE said = ?').run(said);
+}
+
+export async function listCredsLocal(): Promise<CredInfo[]> {
+  return open().prepare('SELECT * FROM creds ORDER BY id').all().map(toCred);
+}
+
+export async function getCredLocal(said: string): Promise<CredInfo | undefined> {
+  const r = open().prepare('SELECT * FROM creds WHERE said = ?').get(said);
+  return r ? toCred(r) : undefined;
 }
 
 export async function getCredsForName(name: string): Promise<CredInfo[]> {
-    const db = await readDb();
-    return db.creds.filter(c => c.issuer === name || c.holder === name);
-  }
\ No newline at end of file
+  return open().prepare('SELECT * FROM creds WHERE issuer = ? OR holder = ? ORDER BY id').all(name, name).map(toCred);
+}
+
+export async function getCredsForLei(lei: string): Promise<CredInfo[]> {
+  return open().prepare('SELECT * FROM creds WHERE lei = ? ORDER BY id').all(lei).map(toCred);
+}
+
+export async function putOperation(op: { name: string; kind: string; done?: boolean; error?: string; meta?: any }) {
+  const now = new Date().toISOString();
+  open().prepare(
+    `INSERT INTO operations (name, kind, done, error, meta, created, updated)
+     VALUES (@name, @kind, @done, @error, @meta, @now, @now)
+     ON CONFLICT(name) DO UPDATE SET done = excluded.done, error = excluded.error,
+       meta = COALESCE(excluded.meta, operations.meta), updated = excluded.updated`
+  ).run({
+    name: op.name,
+    kind: op.kind,
+    done: Number(op.done ?? false),
+    error: op.error ?? null,
+    meta: op.meta === undefined ? null : JSON.stringify(op.meta),
+    now,
+  });
+}
+
+export async function getOperationLocal(name: string): Promise<OpInfo | undefined> {
+  const r = open().prepare('SELECT * FROM operations WHERE name = ?').get(name);
+  return r ? toOp(r) : undefined;
+}
+
+export async function appendAudit(e: AuditEntry) {
+  open().prepare(
+    'INSERT INTO audit (at, action, actor, target, detail, principal) VALUES (?, ?, ?, ?, ?, ?)'
+  ).run(
+    e.at ?? new Date().toISOString(), e.action, e.actor ?? null, e.target ?? null,
+    e.detail === undefined ? null : JSON.stringify(e.detail),
+    e.principal ?? currentPrincipal()?.id ?? null
+  );
+}
+
+export async function listAudit(target?: string, limit = 100): Promise<AuditEntry[]> {
+  const rows = target
+    ? open().prepare('SELECT * FROM audit WHERE target = ? ORDER BY id DESC LIMIT ?').all(target, limit)
+    : open().prepare('SELECT * FROM audit ORDER BY id DESC LIMIT ?').all(limit);
+  return rows.map((r: any) => ({ ...r, detail: r.detail ? JSON.parse(r.detail) : undefined, principal: r.principal ?? undefined }));
+}
+
+export async function addExchange(x: ExchangeInfo) {
+  open().prepare(
+    `INSERT OR REPLACE INTO exchanges (said, credential, route, sender, recipient, prior, time)
+     VALUES (@said, @credential, @route, @sender, @recipient, @prior, @time)`
+  ).run({ ...x, prior: x.prior ?? null });
+}
+
+export async function getExchange(said: string): Promise<ExchangeInfo | undefined> {
+  const r: any = open().prepare('SELECT * FROM exchanges WHERE said = ?').get(said);
+  return r ? { ...r, prior: r.prior ?? undefined } : undefined;
+}
+
+export async function listExchanges(credential: string): Promise<ExchangeInfo[]> {
+  return open().prepare('SELECT * FROM exchanges WHERE credential = ? ORDER BY time').all(credential)
+    .map((r: any) => ({ ...r, prior: r.prior ?? undefined }));
+}
+
+export async function addRotation(r: RotationInfo) {
+  open().prepare(
+    `INSERT INTO rotations (name, prefix, sn, keys, next, wits, toad, at)
+     VALUES (@name, @prefix, @sn, @keys, @next, @wits, @toad, @at)`
+  ).run({ ...r, keys: JSON.stringify(r.keys), next: JSON.stringify(r.next), wits: JSON.stringify(r.wits) });
+}
+
+export async function listRotations(name: string): Promise<RotationInfo[]> {
+  return open().prepare('SELECT * FROM rotations WHERE name = ? ORDER BY sn').all(name).map((r: any) => ({
+    name: r.name,
+    prefix: r.prefix,
+    sn: r.sn,
+    keys: JSON.parse(r.keys),
+    next: JSON.parse(r.next),
+    wits: JSON.parse(r.wits),
+    toad: r.toad,
+    at: r.at,
+  }));
+}
+
+function toBinding(r: any): BindingInfo {
+  return {
+    address: r.address,
+    prefix: r.prefix,
+    ...(r.name ? { name: r.name } : {}),
+    message: r.message,
+    aidSignatures: JSON.parse(r.aid_sigs),
+    ethSignature: r.eth_sig,
+    created: r.created,
+  };
+}
+
+export async function putBindingChallenge(c: BindingChallenge) {
+  const db = open();
+  db.prepare('DELETE FROM binding_challenges WHERE expires < ?').run(new Date().toISOString());
+  db.prepare(
+    `INSERT INTO binding_challenges (id, address, prefix, name, message, created, expires)
+     VALUES (@id, @address, @prefix, @name, @message, @created, @expires)`
+  ).run({ ...c, name: c.name ?? null });
+}
+
+export async function getBindingChallenge(id: string): Promise<BindingChallenge | undefined> {
+  const r: any = open().prepare('SELECT * FROM binding_challenges WHERE id = ?').get(id);
+  return r ? { ...r, name: r.name ?? undefined } : undefined;
+}
+
+/** Stores the binding and consumes its challenge in one transaction. */
+export async function putBinding(b: BindingInfo, challengeId: string) {
+  const db = open();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT OR REPLACE INTO bindings (address, prefix, name, message, aid_sigs, eth_sig, created)
+       VALUES (@address, @prefix, @name, @message, @aid_sigs, @eth_sig, @created)`
+    ).run({
+      address: b.address,
+      prefix: b.prefix,
+      name: b.name ?? null,
+      message: b.message,
+      aid_sigs: JSON.stringify(b.aidSignatures),
+      eth_sig: b.ethSignature,
+      created: b.created,
+    });
+    db.prepare('DELETE FROM binding_challenges WHERE id = ?').run(challengeId);
+  })();
+}
+
+export async function getBinding(address: string): Promise<BindingInfo | undefined> {
+  const r = open().prepare('SELECT * FROM bindings WHERE address = ?').get(address);
+  return r ? toBinding(r) : undefined;
+}
+
+export async function listBindingsForPrefix(prefix: string): Promise<BindingInfo[]> {
+  return open().prepare('SELECT * FROM bindings WHERE prefix = ? ORDER BY created').all(prefix).map(toBinding);
+}
+
+function toImport(r: any): ImportInfo {
+  return {
+    said: r.said,
+    schema: r.schema,
+    issuer: r.issuer,
+    ...(r.holder ? { holder: r.holder } : {}),
+    ...(r.lei ? { lei: r.lei } : {}),
+    cesr: r.cesr,
+    verdict: JSON.parse(r.verdict),
+    imported: r.imported,
+  };
+}
+
+/** Stores an imported credential and the KELs it came with; a KEL is only replaced by a longer one. */
+export async function putImport(i: ImportInfo, kels: { prefix: string; sn: number; cesr: string }[]) {
+  const db = open();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT OR REPLACE INTO imports (said, schema, issuer, holder, lei, cesr, verdict, imported)
+       VALUES (@said, @schema, @issuer, @holder, @lei, @cesr, @verdict, @imported)`
+    ).run({ ...i, holder: i.holder ?? null, lei: i.lei ?? null, verdict: JSON.stringify(i.verdict) });
+    const kel = db.prepare(
+      `INSERT INTO imported_kels (prefix, sn, cesr, updated) VALUES (@prefix, @sn, @cesr, @updated)
+       ON CONFLICT(prefix) DO UPDATE SET sn = excluded.sn, cesr = excluded.cesr, updated = excluded.updated
+       WHERE excluded.sn >= imported_kels.sn`
+    );
+    for (const k of kels) kel.run({ ...k, updated: i.imported });
+  })();
+}
+
+export async function getImport(said: string): Promise<ImportInfo | undefined> {
+  const r = open().prepare('SELECT * FROM imports WHERE said = ?').get(said);
+  return r ? toImport(r) : undefined;
+}
+
+/** Imported credentials of `schema` issued to `holder`, oldest first. */
+export async function listImportsHeld(holder: string, schema: string): Promise<ImportInfo[]> {
+  return open().prepare('SELECT * FROM imports WHERE holder = ? AND schema = ? ORDER BY imported').all(holder, schema).map(toImport);
+}
+
+export async function getImportedKel(prefix: string): Promise<string | undefined> {
+  const r: any = open().prepare('SELECT cesr FROM imported_kels WHERE prefix = ?').get(prefix);
+  return r?.cesr;
+}
+
+function toJob(r: any): JobInfo {
+  return {
+    id: r.id,
+    kind: r.kind,
+    status: r.status,
+    options: JSON.parse(r.options),
+    ...(r.principal ? { principal: r.principal } : {}),
+    created: r.created,
+    updated: r.updated,
+  };
+}
+
+function toJobRow(r: any): JobRow {
+  return {
+    index: r.idx,
+    input: JSON.parse(r.input),
+    status: r.status,
+    ...(r.aid ? { aid: r.aid } : {}),
+    aidCreated: Boolean(r.aid_created),
+    ...(r.said ? { said: r.said } : {}),
+    ...(r.vlei_hash ? { vleiHash: r.vlei_hash } : {}),
+    ...(r.error ? { error: JSON.parse(r.error) } : {}),
+    attempts: r.attempts,
+    updated: r.updated,
+  };
+}
+
+/** Stores a new job with its rows (all pending) in one transaction. */
+export async function putJob(job: JobInfo, inputs: any[]) {
+  const db = open();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO jobs (id, kind, status, options, principal, created, updated)
+       VALUES (@id, @kind, @status, @options, @principal, @created, @updated)`
+    ).run({ ...job, options: JSON.stringify(job.options), principal: job.principal ?? null });
+    const row = db.prepare(
+      `INSERT INTO job_rows (job, idx, input, status, updated) VALUES (?, ?, ?, 'pending', ?)`
+    );
+    inputs.forEach((input, i) => row.run(job.id, i, JSON.stringify(input), job.created));
+  })();
+}
+
+export async function getJobLocal(id: string): Promise<JobInfo | undefined> {
+  const r = open().prepare('SELECT * FROM jobs WHERE id = ?').get(id);
+  return r ? toJob(r) : undefined;
+}
+
+export async function setJobStatus(id: string, status: JobStatus) {
+  open().prepare('UPDATE jobs SET status = ?, updated = ? WHERE id = ?').run(status, new Date().toISOString(), id);
+}
+
+export async function listJobRows(id: string): Promise<JobRow[]> {
+  return open().prepare('SELECT * FROM job_rows WHERE job = ? ORDER BY idx').all(id).map(toJobRow);
+}
+
+/** Writes a row's outcome; omitted fields keep their stored value, an explicit `error: undefined` clears the error. */
+export async function updateJobRow(job: string, index: number, patch: Partial<Omit<JobRow, 'index' | 'input' | 'updated'>>) {
+  open().prepare(
+    `UPDATE job_rows SET
+       status      = COALESCE(@status, status),
+       aid         = COALESCE(@aid, aid),
+       aid_created = COALESCE(@aid_created, aid_created),
+       said        = COALESCE(@said, said),
+       vlei_hash   = COALESCE(@vlei_hash, vlei_hash),
+       error       = CASE WHEN @clear_error THEN NULL ELSE COALESCE(@error, error) END,
+       attempts    = COALESCE(@attempts, attempts),
+       updated     = @updated
+     WHERE job = @job AND idx = @idx`
+  ).run({
+    job,
+    idx: index,
+    status: patch.status ?? null,
+    aid: patch.aid ?? null,
+    aid_created: patch.aidCreated === undefined ? null : Number(patch.aidCreated),
+    said: patch.said ?? null,
+    vlei_hash: patch.vleiHash ?? null,
+    error: patch.error ? JSON.stringify(patch.error) : null,
+    clear_error: Number('error' in patch && patch.error === undefined),
+    attempts: patch.attempts ?? null,
+    updated: new Date().toISOString(),
+  });
+}
+
+// ---- GLEIF golden copy (shared by all tenants) ----
+
+let leiDb: Database.Database | undefined;
+
+function openLei(): Database.Database {
+  if (leiDb) return leiDb;
+  mkdirSync(dirname(LEI_DB_PATH), { recursive: true });
+  const db = new Database(LEI_DB_PATH);
+  db.pragma('journal_mode = WAL');
+  migrate(db, LEI_MIGRATIONS);
+  leiDb = db;
+  return db;
+}
+
+export async function getLeiRecord(lei: string): Promise<LeiRecord | undefined> {
+  const r = openLei().prepare('SELECT record FROM lei_records WHERE lei = ?').get(lei) as { record: string } | undefined;
+  return r ? JSON.parse(r.record) : undefined;
+}
+
+export async function getLeiSource(): Promise<LeiSource | undefined> {
+  return openLei().prepare('SELECT file, size, mtime, records, imported FROM lei_source WHERE id = 1').get() as LeiSource | undefined;
+}
+
+/**
+ * Replaces the golden copy with the records of `batches`. They are loaded
+ * into a staging table, one transaction per batch, which takes the place of
+ * the old table at the end: lookups see either copy in full, never a mix.
+ */
+export async function replaceLeiRecords(source: Omit<LeiSource, 'records' | 'imported'>, batches: AsyncIterable<LeiRecord[]>): Promise<LeiSource> {
+  const db = openLei();
+  db.exec(`DROP TABLE IF EXISTS lei_staging;
+           CREATE TABLE lei_staging (lei TEXT PRIMARY KEY, record TEXT NOT NULL);`);
+  const put = db.prepare('INSERT OR REPLACE INTO lei_staging (lei, record) VALUES (?, ?)');
+  const load = db.transaction((rows: LeiRecord[]) => {
+    for (const r of rows) put.run(r.lei, JSON.stringify(r));
+  });
+  for await (const rows of batches) load(rows);
+
+  const { n } = db.prepare('SELECT COUNT(*) AS n FROM lei_staging').get() as { n: number };
+  const done: LeiSource = { ...source, records: n, imported: new Date().toISOString() };
+  db.transaction(() => {
+    db.exec(`DROP TABLE lei_records;
+             ALTER TABLE lei_staging RENAME TO lei_records;`);
+    db.prepare(
+      `INSERT OR REPLACE INTO lei_source (id, file, size, mtime, records, imported)
+       VALUES (1, @file, @size, @mtime, @records, @imported)`
+    ).run(done);
+  })();
+  return done;
+}
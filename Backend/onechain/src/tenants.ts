@@ -0,0 +1,178 @@
+// src/tenants.ts
+import { AsyncLocalStorage } from "node:async_hooks";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { randomBytes } from "node:crypto";
+import { logger, redact } from "./logger.js";
+import { keystoreEnabled, getSecret, putSecret, listSecretNames } from "./keystore.js";
+import {
+  DEFAULT_TENANT,
+  PASSCODE,
+  BRAN_FILE,
+  DEV_PASSCODE,
+  DEV_KERIA_HOSTS,
+  KERIA_ADMIN,
+  KERIA_BOOT,
+  TENANT_BRANS,
+  TENANTS_FILE,
+} from "./config.js";
+
+// Which KERIA agent (and local store) a call runs against
+export type TenantContext = { id: string; bran: string };
+
+// Tenant ids end up in store file names, so keep them path-safe
+const TENANT_ID = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+export class UnknownTenantError extends Error {
+  constructor(public tenant: string) {
+    super(`unknown tenant: ${tenant}`);
+    this.name = "UnknownTenantError";
+  }
+}
+
+const BRAN_SECRET = "bran:"; // keystore entry prefix, one per tenant
+
+const scope = new AsyncLocalStorage<TenantContext>();
+let brans: Map<string, string> | null = null;
+
+function parseBrans(raw: string, from: string): Record<string, string> {
+  try {
+    const obj = JSON.parse(raw);
+    return obj && typeof obj === "object" ? obj : {};
+  } catch (e: any) {
+    logger.warn("[tenants] %s unreadable: %s", from, e?.message ?? String(e));
+    return {};
+  }
+}
+
+// Startup config: a missing or broken tenants file stops the service instead of failing requests
+function readTenantsFile(): Record<string, string> {
+  let doc: any;
+  try {
+    doc = JSON.parse(readFileSync(TENANTS_FILE, "utf8"));
+  } catch (e: any) {
+    throw new Error(`tenants file ${TENANTS_FILE} unreadable: ${e?.message ?? String(e)}`);
+  }
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) throw new Error(`tenants file ${TENANTS_FILE} must map tenant ids to brans`);
+  return doc;
+}
+
+// Same shape as signify-ts randomPasscode(): 21 base64url chars from 128 random bits
+export function generateBran(): string {
+  return randomBytes(16).toString("base64url").slice(0, 21);
+}
+
+// Generated on first boot and kept: encrypted in the keystore, else in BRAN_FILE
+function controllerBran(): string {
+  if (PASSCODE) return PASSCODE;
+  if (!keystoreEnabled()) {
+    if (existsSync(BRAN_FILE)) return readFileSync(BRAN_FILE, "utf8").trim();
+    const bran = generateBran();
+    mkdirSync(dirname(BRAN_FILE), { recursive: true });
+    writeFileSync(BRAN_FILE, bran, { mode: 0o600, flag: "wx" });
+    logger.warn("[tenants] generated a new controller bran into %s (unencrypted; set ONECHAIN_MASTER_KEY(_FILE) to keep it in the keystore)", BRAN_FILE);
+    return bran;
+  }
+  const name = `${BRAN_SECRET}${DEFAULT_TENANT}`;
+  let bran = getSecret(name);
+  if (!bran) {
+    bran = generateBran();
+    putSecret(name, bran);
+    logger.info("[tenants] generated a new controller bran for %s", DEFAULT_TENANT);
+  }
+  return bran;
+}
+
+function keystoreBrans(): Record<string, string> {
+  if (!keystoreEnabled()) return {};
+  const out: Record<string, string> = {};
+  for (const name of listSecretNames(BRAN_SECRET)) {
+    const bran = getSecret(name);
+    if (bran) out[name.slice(BRAN_SECRET.length)] = bran;
+  }
+  return out;
+}
+
+function loadBrans(): Map<string, string> {
+  if (brans) return brans;
+  const all: Record<string, string> = {
+    ...keystoreBrans(),
+    ...(TENANTS_FILE ? readTenantsFile() : {}),
+    ...(TENANT_BRANS ? parseBrans(TENANT_BRANS, "TENANT_BRANS") : {}),
+  };
+
+  delete all[DEFAULT_TENANT];
+
+  brans = new Map([[DEFAULT_TENANT, controllerBran()]]);
+  for (const [id, bran] of Object.entries(all)) {
+    if (!TENANT_ID.test(id) || typeof bran !== "string" || bran.length < 21) {
+      logger.warn("[tenants] skip invalid tenant entry %s", id);
+      continue;
+    }
+    brans.set(id, bran);
+  }
+  for (const bran of brans.values()) redact(bran);
+  logger.info("[tenants] %d tenants configured", brans.size);
+  return brans;
+}
+
+/** Loads tenant brans at startup (index.ts); throws on a bad tenants file. */
+export function loadTenants(): string[] {
+  return listTenants();
+}
+
+export function listTenants(): string[] {
+  return Array.from(loadBrans().keys());
+}
+
+export function tenantContext(id: string = DEFAULT_TENANT): TenantContext {
+  const bran = loadBrans().get(id);
+  if (!bran) throw new UnknownTenantError(id);
+  return { id, bran };
+}
+
+/** Runs fn with `tenant` as the ambient tenant for every helper it calls. */
+export function withTenant<T>(tenant: TenantContext, fn: () => T): T {
+  return scope.run(tenant, fn);
+}
+
+/**
+ * Whether `tenant` already is the ambient tenant. Helpers that take an
+ * explicit tenant re-enter themselves under withTenant otherwise, so the
+ * store, client and operation calls below them resolve that same tenant
+ * without relying on the caller's scope (e.g. background jobs).
+ */
+export function inTenant(tenant: TenantContext): boolean {
+  return scope.getStore()?.id === tenant.id;
+}
+
+/** Tenant of the current request scope; the default tenant outside of one. */
+export function currentTenant(): TenantContext {
+  return scope.getStore() ?? tenantContext(DEFAULT_TENANT);
+}
+
+function isDevHost(u: string): boolean {
+  try {
+    return DEV_KERIA_HOSTS.includes(new URL(u).hostname.replace(/^\[|\]$/g, "").toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Startup guard: throws when any tenant would drive a non-development KERIA
+ * with the well-known development passcode.
+ */
+export function assertSafePasscodes() {
+  const dev = Array.from(loadBrans()).filter(([, bran]) => bran === DEV_PASSCODE).map(([id]) => id);
+  if (!dev.length) return;
+
+  const remote = [KERIA_ADMIN, KERIA_BOOT].filter((u) => !isDevHost(u));
+  if (remote.length) {
+    throw new Error(
+      `refusing to start: development passcode in use (tenants ${dev.join(", ")}) against non-development KERIA ${remote.join(", ")}; ` +
+      "set CONTROLLER_PASSCODE to another bran, or unset it to have one generated"
+    );
+  }
+  logger.warn("[tenants] development passcode in use for %s (KERIA is a development host)", dev.join(", "));
+}
@@ -0,0 +1,176 @@
+// src/verify.test.ts
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import signify from "signify-ts";
+import { parseCesr } from "./cesr.js";
+import { Presentation, credentialStatus } from "./verify.js";
+
+const { ready, Signer, Diger, MtrDex, Counter, CtrDex, Seqner, Saider, incept, interact } = signify;
+
+const REGISTRY = "EHyaPbzgsZ8xANBtc7tgkK3DvV2DQRn5W7H2_TuEiHLA";
+const CREDENTIAL = "EBE4rqbqN2wwOJNvnYO7GyEcgGFqzv9GhUCSLzW2FXm5";
+
+type Stream = { issuer: string; kel: string; anchor: (said: string) => string };
+
+function signed(serder: { raw: string }, signer: InstanceType<typeof Signer>) {
+  const sig = signer.sign(new TextEncoder().encode(serder.raw), 0);
+  return serder.raw + new Counter({ code: CtrDex.ControllerIdxSigs, count: 1 }).qb64 + sig.qb64;
+}
+
+// Issuer with an inception and one interaction per TEL event, each sealing that event
+function issuerKel(events: Record<string, any>[]): Stream {
+  const signer = new Signer({ transferable: true });
+  const next = new Signer({ transferable: true });
+  const icp = incept({
+    keys: [signer.verfer.qb64],
+    ndigs: [new Diger({ code: MtrDex.Blake3_256 }, next.verfer.qb64b).qb64],
+  });
+  let kel = signed(icp, signer);
+  let dig = icp.sad.d;
+  const seals = new Map<string, { sn: number; d: string }>();
+  events.forEach((e, n) => {
+    const ixn = interact({ pre: icp.sad.i, dig, sn: n + 1, data: [{ i: CREDENTIAL, s: e.s, d: e.d }], version: undefined, kind: undefined });
+    kel += signed(ixn, signer);
+    dig = ixn.sad.d;
+    seals.set(e.d, { sn: n + 1, d: ixn.sad.d });
+  });
+  return {
+    issuer: icp.sad.i,
+    kel,
+    // seal source couple: the interaction that anchors the TEL event `said`
+    anchor: (said) =>
+      new Counter({ code: CtrDex.SealSourceCouples, count: 1 }).qb64 + new Seqner({ sn: seals.get(said)!.sn }).qb64 + seals.get(said)!.d,
+  };
+}
+
+function telEvent(t: string, s: string, fields: Record<string, unknown> = {}) {
+  const [, ked] = Saider.saidify({ v: "KERI10JSON000000_", t, d: "", i: CREDENTIAL, s, ri: REGISTRY, dt: "2025-01-01T00:00:00.000000+00:00", ...fields });
+  return { ked, raw: JSON.stringify(ked) };
+}
+
+async function status(stream: string, issuer: string) {
+  const p = new Presentation(parseCesr(stream));
+  const out = await credentialStatus(p, CREDENTIAL, issuer, REGISTRY);
+  return { status: out, codes: p.failures.map((f) => f.code) };
+}
+
+before(async () => {
+  await ready();
+});
+
+test("an anchored issuance is read from the stream but left unconfirmed without the registry", async () => {
+  const iss = telEvent("iss", "0");
+  const { issuer, kel, anchor } = issuerKel([iss.ked]);
+  const out = await status(kel + iss.raw + anchor(iss.ked.d), issuer);
+  assert.equal(out.status, "issued");
+  assert.deepEqual(out.codes, ["TEL_UNVERIFIABLE"]);
+});
+
+test("a TEL event whose content does not match its SAID is dropped", async () => {
+  const iss = telEvent("iss", "0");
+  const { issuer, kel, anchor } = issuerKel([iss.ked]);
+  const forged = iss.raw.replace("2025-01-01", "2024-01-01");
+  const out = await status(kel + forged + anchor(iss.ked.d), issuer);
+  assert.equal(out.status, "unknown");
+  assert.deepEqual(out.codes, ["TEL_INVALID", "TEL_MISSING"]);
+});
+
+test("a forged event does not displace the genuine one with the same SAID", async () => {
+  const iss = telEvent("iss", "0");
+  const { issuer, kel, anchor } = issuerKel([iss.ked]);
+  const forged = iss.raw.replace('"t":"iss"', '"t":"rev"');
+  const out = await status(kel + forged + anchor(iss.ked.d) + iss.raw + anchor(iss.ked.d), issuer);
+  assert.equal(out.status, "issued");
+  assert.ok(out.codes.includes("TEL_INVALID"));
+  assert.ok(!out.codes.includes("REVOKED"));
+});
+
+test("a TEL event of another registry is rejected", async () => {
+  const iss = telEvent("iss", "0", { ri: CREDENTIAL });
+  const { issuer, kel, anchor } = issuerKel([iss.ked]);
+  const out = await status(kel + iss.raw + anchor(iss.ked.d), issuer);
+  assert.equal(out.status, "unknown");
+  assert.deepEqual(out.codes, ["TEL_INVALID", "TEL_MISSING"]);
+});
+
+test("TEL events must run from sn 0 without gaps", async () => {
+  const iss = telEvent("iss", "0");
+  const rev = telEvent("rev", "2", { p: iss.ked.d });
+  const { issuer, kel, anchor } = issuerKel([iss.ked, rev.ked]);
+  const out = await status(kel + iss.raw + anchor(iss.ked.d) + rev.raw + anchor(rev.ked.d), issuer);
+  assert.equal(out.status, "unknown");
+  assert.ok(out.codes.includes("TEL_INVALID"));
+});
+
+test("an anchored revocation is reported", async () => {
+  const iss = telEvent("iss", "0");
+  const rev = telEvent("rev", "1", { p: iss.ked.d });
+  const { issuer, kel, anchor } = issuerKel([iss.ked, rev.ked]);
+  const out = await status(kel + iss.raw + anchor(iss.ked.d) + rev.raw + anchor(rev.ked.d), issuer);
+  assert.equal(out.status, "revoked");
+  assert.deepEqual(out.codes, ["TEL_UNVERIFIABLE", "REVOKED"]);
+});
+
+test("a TEL event the issuer did not anchor does not count", async () => {
+  const iss = telEvent("iss", "0");
+  const { issuer, kel } = issuerKel([]);
+  const out = await status(kel + iss.raw, issuer);
+  assert.equal(out.status, "unknown");
+  assert.deepEqual(out.codes, ["NOT_ANCHORED", "TEL_MISSING"]);
+});
+
+// ---- KEL inception ----
+
+function controller() {
+  const signer = new Signer({ transferable: true });
+  const next = new Signer({ transferable: true });
+  return { signer, keys: [signer.verfer.qb64], ndigs: [new Diger({ code: MtrDex.Blake3_256 }, next.verfer.qb64b).qb64] };
+}
+
+async function kelCodes(stream: string, pre: string) {
+  const p = new Presentation(parseCesr(stream));
+  const states = await p.keyStates(pre);
+  return { states, codes: p.failures.map((f) => f.code) };
+}
+
+test("a self-signed inception claiming someone else's prefix is rejected", async () => {
+  const victim = incept(controller());
+  const attacker = controller();
+  const [, ked] = Saider.saidify({ ...incept(attacker).sad, i: victim.sad.i });
+  const forged = signed({ raw: JSON.stringify(ked) }, attacker.signer);
+
+  const out = await kelCodes(forged, victim.sad.i);
+  assert.equal(out.states, null);
+  assert.deepEqual(out.codes, ["KEL_INVALID"]);
+});
+
+test("a basic prefix must be the inception's only key", async () => {
+  const c = controller();
+  const icp = incept({ ...c, code: MtrDex.Ed25519 });
+  assert.equal(icp.sad.i, c.keys[0]);
+  assert.equal((await kelCodes(signed(icp, c.signer), icp.sad.i)).states?.length, 1);
+
+  const other = controller();
+  const [, ked] = Saider.saidify({ ...icp.sad, i: other.keys[0] });
+  const out = await kelCodes(signed({ raw: JSON.stringify(ked) }, c.signer), other.keys[0]);
+  assert.equal(out.states, null);
+  assert.deepEqual(out.codes, ["KEL_INVALID"]);
+});
+
+test("a delegated inception needs the delegator's anchoring seal", async () => {
+  const delegator = controller();
+  const dicp = incept(delegator);
+  const delegate = controller();
+  const dip = incept({ ...delegate, delpre: dicp.sad.i });
+  const seal = interact({ pre: dicp.sad.i, dig: dicp.sad.d, sn: 1, data: [{ i: dip.sad.i, s: "0", d: dip.sad.d }], version: undefined, kind: undefined });
+  const source = new Counter({ code: CtrDex.SealSourceCouples, count: 1 }).qb64 + new Seqner({ sn: 1 }).qb64 + seal.sad.d;
+
+  const unsealed = await kelCodes(signed(dicp, delegator.signer) + signed(dip, delegate.signer), dip.sad.i);
+  assert.equal(unsealed.states, null);
+  assert.deepEqual(unsealed.codes, ["KEL_INVALID"]);
+
+  const stream = signed(dicp, delegator.signer) + signed(seal, delegator.signer) + signed(dip, delegate.signer) + source;
+  const sealed = await kelCodes(stream, dip.sad.i);
+  assert.equal(sealed.states?.length, 1);
+  assert.deepEqual(sealed.codes, []);
+});
@@ -0,0 +1,448 @@
+// src/verify.ts
+import signify from "signify-ts";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { GEDA_AID_NAME, VLEI_ROOT_AIDS, SCHEMA_LEGAL_ENTITY_SAID } from "./config.js";
+import { getClient } from "./signify.js";
+import { getAid, extractPrefix } from "./aid.js";
+import { listCredentials, credentialCesr, vleiHash, MAX_PAGE_SIZE } from "./credentials.js";
+import { getSchema, validateSubject, SchemaValidationError } from "./schemas.js";
+import { parseCesr, KEL_ILKS, TEL_ILKS, type CesrMessage, type SealSource } from "./cesr.js";
+
+const { Diger, Siger, Verfer, Tholder } = signify;
+
+export type VerifyFailureCode =
+  | "SAID_MISMATCH"
+  | "KEL_MISSING"
+  | "KEL_INVALID"
+  | "NOT_ANCHORED"
+  | "TEL_MISSING"
+  | "TEL_INVALID"
+  | "TEL_UNVERIFIABLE"
+  | "REVOKED"
+  | "SCHEMA_UNRESOLVABLE"
+  | "SCHEMA_INVALID"
+  | "SCHEMA_MISMATCH"
+  | "EDGE_MISSING"
+  | "EDGE_INVALID"
+  | "UNTRUSTED_ROOT"
+  | "LEI_MISMATCH"
+  | "VLEI_HASH_MISMATCH";
+
+export type VerifyFailure = { code: VerifyFailureCode; said?: string; message: string; detail?: unknown };
+
+// One credential of the chain, presented credential first
+export type ChainLink = {
+  said: string;
+  schema: string;
+  issuer: string;
+  holder: string | null;
+  registry: string | null;
+  lei: string | null;
+  status: "issued" | "revoked" | "unknown";
+  edge?: string;              // edge of the previous link that points here
+  root: boolean;              // no edges, issued by a trusted root
+};
+
+export type Verdict = {
+  verified: boolean;
+  said: string;
+  schema: string;
+  lei: string | null;
+  vleiHash: string | null;    // see vleiHash() in credentials.ts
+  issuer: string;
+  holder: string | null;
+  chain: ChainLink[];
+  failures: VerifyFailure[];
+  checkedAt: string;
+};
+
+export type VerifyInput = {
+  presentation?: string;      // text-domain CESR stream with the ACDC, its chain, KELs and TELs
+  said?: string;              // credential to verify (fetched from the agent without a presentation)
+  holder?: string;            // alias or prefix: verify its newest credential of expectedSchema
+  expectedLEI?: string;
+  expectedSchema?: string;    // default: the Legal Entity vLEI schema, whatever the input
+  expectedVleiHash?: string;  // fingerprint registered on chain for the credential
+};
+
+type KeyState = { sn: number; d: string; k: string[]; kt: any; n: string[]; nt: any; di?: string };
+
+const MAX_DEPTH = 8;
+
+// SAID rule: digest of the serialization with the SAID fields filled with '#'
+function saidMatches(raw: string, ked: any, labels: string[] = ["d"]): boolean {
+  let text = raw;
+  for (const label of labels) {
+    const v = String(ked?.[label] ?? "");
+    if (!v) return false;
+    text = text.replace(`"${label}":"${v}"`, `"${label}":"${"#".repeat(v.length)}"`);
+  }
+  try {
+    return new Diger({}, new TextEncoder().encode(text)).qb64 === ked.d;
+  } catch {
+    return false;
+  }
+}
+
+// nested blocks (a, e) carry their own SAID over their compact JSON
+function blockSaidMatches(block: any): boolean {
+  if (!block || typeof block !== "object") return true;
+  return saidMatches(JSON.stringify(block), block);
+}
+
+function sigIndices(keys: string[], raw: string, sigs: string[]): number[] {
+  const ser = new TextEncoder().encode(raw);
+  const out = new Set<number>();
+  for (const qb64 of sigs) {
+    try {
+      const siger = new Siger({ qb64 });
+      const key = keys[siger.index];
+      if (key && new Verfer({ qb64: key }).verify(siger.raw, ser)) out.add(siger.index);
+    } catch { /* unverifiable signature: just does not count */ }
+  }
+  return Array.from(out);
+}
+
+function satisfies(kt: any, indices: number[]): boolean {
+  try {
+    return indices.length > 0 && new Tholder({ sith: kt ?? "1" }).satisfy(indices);
+  } catch {
+    return false;
+  }
+}
+
+// Applies one KEL event to the prior state; a string is the reason it does not verify
+function nextState({ ked, raw, sigs }: CesrMessage, prev: KeyState | undefined): KeyState | string {
+  const sn = parseInt(ked.s, 16);
+  const inception = ked.t === "icp" || ked.t === "dip";
+  if (inception !== !prev) return `unexpected ${ked.t}`;
+  if (inception) {
+    // the prefix is derived from the inception: its SAID (self-addressing), or its only key (basic)
+    const basic = ked.t === "icp" && Array.isArray(ked.k) && ked.k.length === 1 && ked.i === ked.k[0];
+    if (!basic && ked.i !== ked.d) return "prefix is not derived from the inception event";
+  }
+  if (!saidMatches(raw, ked, inception && ked.i === ked.d ? ["d", "i"] : ["d"])) return "SAID mismatch";
+  if (prev && ked.p !== prev.d) return "prior event digest mismatch";
+
+  let state: KeyState;
+  if (ked.t === "ixn") {
+    state = { ...prev!, sn, d: ked.d };
+  } else {
+    state = { sn, d: ked.d, k: ked.k ?? [], kt: ked.kt, n: ked.n ?? [], nt: ked.nt, di: ked.di ?? prev?.di };
+    if (prev) {
+      // rotated-in keys must have been committed to by the prior next-key digests
+      const exposed = state.k
+        .map((k) => prev.n.findIndex((n) => new Diger({ qb64: n }).verify(new TextEncoder().encode(k))))
+        .filter((i) => i >= 0);
+      if (!satisfies(prev.nt, exposed)) return "rotation keys do not satisfy the prior next threshold";
+    }
+  }
+  if (!satisfies(state.kt, sigIndices(state.k, raw, sigs))) return "signatures do not satisfy the signing threshold";
+  return state;
+}
+
+export class Presentation {
+  kels = new Map<string, Map<number, CesrMessage>>();
+  tels = new Map<string, CesrMessage[]>();
+  acdcs = new Map<string, CesrMessage>();
+  failures: VerifyFailure[] = [];
+  private states = new Map<string, KeyState[] | null>();
+
+  constructor(messages: CesrMessage[]) {
+    for (const m of messages) this.add(m);
+  }
+
+  add(m: CesrMessage) {
+    const t = m.ked?.t;
+    if (m.proto === "ACDC") {
+      if (m.ked?.d && !this.acdcs.has(m.ked.d)) this.acdcs.set(m.ked.d, m);
+    } else if (KEL_ILKS.includes(t)) {
+      const kel = this.kels.get(m.ked.i) ?? new Map<number, CesrMessage>();
+      this.kels.set(m.ked.i, kel);
+      const sn = parseInt(m.ked.s, 16);
+      const prev = kel.get(sn);
+      if (!prev) kel.set(sn, m);
+      else if (prev.ked.d !== m.ked.d) this.fail("KEL_INVALID", `conflicting events for ${m.ked.i} at sn ${sn}`);
+    } else if (TEL_ILKS.includes(t)) {
+      // a forged event must not take the place of the real one with the same SAID
+      if (!saidMatches(m.raw, m.ked, t === "vcp" && m.ked.i === m.ked.d ? ["d", "i"] : ["d"])) {
+        this.fail("TEL_INVALID", `TEL ${t} event ${m.ked.d} does not match its SAID`, t === "vcp" ? undefined : m.ked.i);
+        return;
+      }
+      const tel = this.tels.get(m.ked.i) ?? [];
+      if (!tel.some((e) => e.ked.d === m.ked.d)) tel.push(m);
+      this.tels.set(m.ked.i, tel);
+    }
+  }
+
+  fail(code: VerifyFailureCode, message: string, said?: string, detail?: unknown) {
+    this.failures.push({ code, message, ...(said ? { said } : {}), ...(detail !== undefined ? { detail } : {}) });
+  }
+
+  // KEL events the stream did not carry come from the agent (KERIA /events)
+  private async fetchKel(pre: string) {
+    try {
+      const records = await getClient().keyEvents().get(pre);
+      const text = (Array.isArray(records) ? records : []).map((r: any) => JSON.stringify(r.ked) + (r.atc ?? "")).join("");
+      for (const m of parseCesr(text)) if (m.ked?.i === pre) this.add(m);
+    } catch (e: any) {
+      logger.debug("[verify] no KEL for %s from agent: %s", pre, e?.message ?? String(e));
+    }
+  }
+
+  /** Key state after every event of `pre`, validated event by event; null when unusable. */
+  async keyStates(pre: string): Promise<KeyState[] | null> {
+    if (this.states.has(pre)) return this.states.get(pre)!;
+    if (!this.kels.get(pre)?.size) await this.fetchKel(pre);
+    const kel = this.kels.get(pre);
+    if (!kel?.size) {
+      this.fail("KEL_MISSING", `no key event log for ${pre}`);
+      this.states.set(pre, null);
+      return null;
+    }
+
+    this.states.set(pre, null); // a delegation cycle back to `pre` finds no usable KEL
+    const states: KeyState[] = [];
+    for (let sn = 0; kel.has(sn); sn++) {
+      const msg = kel.get(sn)!;
+      let next = nextState(msg, states[sn - 1]);
+      if (typeof next !== "string" && (msg.ked.t === "dip" || msg.ked.t === "drt") && !(await this.delegated(msg, next))) {
+        next = `not anchored by delegator ${next.di}`;
+      }
+      if (typeof next === "string") {
+        this.fail("KEL_INVALID", `${pre} sn ${sn}: ${next}`);
+        this.states.set(pre, null);
+        return null;
+      }
+      states.push(next);
+    }
+    if (states.length !== kel.size) this.fail("KEL_INVALID", `${pre}: key event log has gaps`);
+    this.states.set(pre, states);
+    return states;
+  }
+
+  // A delegated event counts once the delegator's KEL seals it (at the attached source, if any)
+  private async delegated({ ked, sources }: CesrMessage, state: KeyState): Promise<boolean> {
+    if (!state.di) return false;
+    const source = sources.find((s) => !s.pre || s.pre === state.di);
+    return this.anchored(state.di, { i: ked.i, d: ked.d }, source);
+  }
+
+  /**
+   * True when a (validated) KEL event of `pre` seals `seal`. `source` is the
+   * attached seal source; without one every event is searched.
+   */
+  async anchored(pre: string, seal: { i: string; d: string }, source?: SealSource): Promise<boolean> {
+    const states = await this.keyStates(pre);
+    if (!states) return false;
+    const kel = this.kels.get(pre)!;
+    const candidates = source ? [kel.get(source.sn)].filter((m) => m?.ked.d === source.said) : Array.from(kel.values());
+    return candidates.some((m) =>
+      (m!.ked.a ?? []).some((s: any) => s?.i === seal.i && s?.d === seal.d) && parseInt(m!.ked.s, 16) < states.length
+    );
+  }
+}
+
+async function trustedRoots(): Promise<Set<string>> {
+  const roots = new Set(VLEI_ROOT_AIDS);
+  const geda = extractPrefix(await getAid(GEDA_AID_NAME));
+  if (geda) roots.add(geda);
+  return roots;
+}
+
+// Why the credential TEL `events` (sorted by sn) cannot be read as a status; null when they can
+function telProblem(events: CesrMessage[], registry: string | null): string | null {
+  for (const [sn, e] of events.entries()) {
+    if (parseInt(e.ked.s, 16) !== sn) return "TEL events are not a gap-free sequence from sn 0";
+    if ((e.ked.ri ?? e.ked.ra?.i) !== registry) return `TEL ${e.ked.t} event ${e.ked.d} is not in the credential's registry ${registry}`;
+    const ilks = sn === 0 ? ["iss", "bis"] : sn === 1 ? ["rev", "brv"] : [];
+    if (!ilks.includes(e.ked.t)) return `unexpected TEL ${e.ked.t} event at sn ${sn}`;
+  }
+  return null;
+}
+
+// TEL status from the stream, confirmed by the agent's view of the registry (which also has later
+// revocations); a registry the agent does not know leaves the status unconfirmed
+export async function credentialStatus(p: Presentation, said: string, issuer: string, registry: string | null): Promise<ChainLink["status"]> {
+  const events = (p.tels.get(said) ?? []).slice().sort((a, b) => parseInt(a.ked.s, 16) - parseInt(b.ked.s, 16));
+  let status: ChainLink["status"] = "unknown";
+  const problem = telProblem(events, registry);
+  if (problem) p.fail("TEL_INVALID", problem, said);
+  for (const e of problem ? [] : events) {
+    const ok = await p.anchored(issuer, { i: said, d: e.ked.d }, e.sources[0]);
+    if (!ok) {
+      p.fail("NOT_ANCHORED", `TEL ${e.ked.t} event ${e.ked.d} is not anchored in the issuer KEL`, said);
+      break;
+    }
+    status = e.ked.t === "iss" || e.ked.t === "bis" ? "issued" : "revoked";
+  }
+
+  let state: any = null;
+  if (registry) {
+    try {
+      state = await getClient().credentials().state(registry, said);
+    } catch (e: any) {
+      logger.debug("[verify] no state for %s in registry %s from agent: %s", said, registry, e?.message ?? String(e));
+    }
+  }
+  if (state?.et === "rev" || state?.et === "brv") status = "revoked";
+  else if (state?.et === "iss" || state?.et === "bis") {
+    if (status === "unknown" && !problem) status = "issued";
+  } else if (status !== "unknown") {
+    p.fail("TEL_UNVERIFIABLE", `registry ${registry ?? "(none)"} is unknown to the agent; revocation status cannot be confirmed`, said, { registry });
+  }
+
+  if (status === "unknown") p.fail("TEL_MISSING", "no verifiable issuance event", said);
+  if (status === "revoked") p.fail("REVOKED", "credential is revoked", said);
+  return status;
+}
+
+async function checkSchema(p: Presentation, acdc: any) {
+  try {
+    await getSchema(acdc.s);
+    if (acdc.a && typeof acdc.a === "object") await validateSubject(acdc.s, acdc.a);
+  } catch (e: any) {
+    if (e instanceof SchemaValidationError) p.fail("SCHEMA_INVALID", e.message, acdc.d, e.errors);
+    else p.fail("SCHEMA_UNRESOLVABLE", e?.message ?? String(e), acdc.d);
+  }
+}
+
+function edgesOf(acdc: any): [string, any][] {
+  const e = acdc?.e;
+  if (!e || typeof e !== "object") return [];
+  return Object.entries(e).filter(([k, v]) => k !== "d" && v && typeof v === "object" && typeof (v as any).n === "string");
+}
+
+async function verifyCredential(
+  p: Presentation,
+  said: string,
+  roots: Set<string>,
+  chain: ChainLink[],
+  seen: Set<string>,
+  edge?: string
+): Promise<ChainLink | null> {
+  if (seen.has(said) || chain.length >= MAX_DEPTH) {
+    p.fail("EDGE_INVALID", "credential chain loops or is too deep", said);
+    return null;
+  }
+  seen.add(said);
+  const msg = p.acdcs.get(said);
+  if (!msg) {
+    p.fail("EDGE_MISSING", "chained credential is not in the presentation", said);
+    return null;
+  }
+  const acdc = msg.ked;
+
+  if (!saidMatches(msg.raw, acdc)) p.fail("SAID_MISMATCH", "credential SAID does not match its content", said);
+  if (!blockSaidMatches(acdc.a)) p.fail("SAID_MISMATCH", "attribute block SAID does not match", said);
+  if (!blockSaidMatches(acdc.e)) p.fail("SAID_MISMATCH", "edge block SAID does not match", said);
+
+  const edges = edgesOf(acdc);
+  const link: ChainLink = {
+    said,
+    schema: acdc.s,
+    issuer: acdc.i,
+    holder: acdc.a?.i ?? null,
+    registry: acdc.ri ?? null,
+    lei: acdc.a?.LEI ?? null,
+    status: "unknown",
+    ...(edge ? { edge } : {}),
+    root: !edges.length && roots.has(acdc.i),
+  };
+  chain.push(link);
+
+  link.status = await credentialStatus(p, said, acdc.i, link.registry);
+  await checkSchema(p, acdc);
+
+  if (!edges.length && !link.root) {
+    p.fail("UNTRUSTED_ROOT", `chain ends at an issuer that is not a trusted root: ${acdc.i}`, said);
+  }
+
+  for (const [label, e] of edges) {
+    const parent = await verifyCredential(p, e.n, roots, chain, seen, label);
+    if (!parent) continue;
+    if (e.s && parent.schema !== e.s) {
+      p.fail("SCHEMA_MISMATCH", `edge ${label} expects schema ${e.s}, got ${parent.schema}`, said);
+    }
+    // I2I (the default when the parent has an issuee): the child's issuer must hold the parent
+    const op = e.o ?? (parent.holder ? "I2I" : "NI2I");
+    if (op === "I2I" || op === "DI2I") {
+      const issuerState = op === "DI2I" ? (await p.keyStates(acdc.i))?.at(-1) : undefined;
+      const ok = parent.holder === acdc.i || (issuerState?.di != null && parent.holder === issuerState.di);
+      if (!ok) p.fail("EDGE_INVALID", `edge ${label} (${op}): issuer ${acdc.i} is not the holder of ${parent.said}`, said);
+    }
+  }
+  return link;
+}
+
+// The presented credential: the requested one, else the one no other ACDC chains to
+function topCredential(p: Presentation, said?: string): string {
+  if (said) {
+    if (!p.acdcs.has(said)) throw new ApiError("BAD_REQUEST", `credential ${said} is not in the presentation`);
+    return said;
+  }
+  const referenced = new Set(Array.from(p.acdcs.values()).flatMap((m) => edgesOf(m.ked).map(([, e]) => e.n)));
+  const tops = Array.from(p.acdcs.keys()).filter((d) => !referenced.has(d));
+  if (!tops.length) throw new ApiError("BAD_REQUEST", "presentation carries no ACDC");
+  return tops[tops.length - 1];
+}
+
+// newest unrevoked credential of `schema` held by `holder`
+async function holderCredential(holder: string, schema: string): Promise<string> {
+  const { items } = await listCredentials({ holder, schema, limit: MAX_PAGE_SIZE });
+  const live = items.filter((c) => c.status !== "rev" && c.status !== "brv");
+  const pick = live.sort((a, b) => String(b.dt ?? "").localeCompare(String(a.dt ?? "")))[0];
+  if (!pick) throw new ApiError("CREDENTIAL_NOT_FOUND", `no ${schema} credential held by ${holder}`);
+  return pick.said;
+}
+
+/**
+ * Verifies a credential presentation end to end: SAIDs, issuer KEL prefixes,
+ * signatures, key commitments and delegation seals, TEL anchoring and
+ * revocation, schema, the edge chain (LE -> QVI -> trusted root), the
+ * expected schema (LE unless given), LEI and vleiHash. Problems are reported
+ * in the verdict, not thrown; only unusable input is an error.
+ */
+export async function verifyPresentation(input: VerifyInput): Promise<Verdict> {
+  const expectedSchema = input.expectedSchema ?? SCHEMA_LEGAL_ENTITY_SAID;
+  let said = input.said;
+  let text = input.presentation;
+  if (!text) {
+    if (!said && input.holder) said = await holderCredential(input.holder, expectedSchema);
+    if (!said) throw new ApiError("BAD_REQUEST", "presentation, said or holder required");
+    text = await credentialCesr(said);
+  }
+
+  const p = new Presentation(parseCesr(text));
+  const top = topCredential(p, said);
+  const chain: ChainLink[] = [];
+  await verifyCredential(p, top, await trustedRoots(), chain, new Set());
+
+  const acdc = p.acdcs.get(top)!.ked;
+  if (acdc.s !== expectedSchema) {
+    p.fail("SCHEMA_MISMATCH", `expected schema ${expectedSchema}, got ${acdc.s}`, top);
+  }
+  if (input.expectedLEI && acdc.a?.LEI !== input.expectedLEI) {
+    p.fail("LEI_MISMATCH", `expected LEI ${input.expectedLEI}, got ${acdc.a?.LEI ?? "none"}`, top);
+  }
+  const hash = vleiHash(top, acdc.a?.LEI);
+  if (input.expectedVleiHash && input.expectedVleiHash.toLowerCase() !== hash) {
+    p.fail("VLEI_HASH_MISMATCH", `vleiHash ${input.expectedVleiHash} is not the fingerprint of this credential`, top, { vleiHash: hash });
+  }
+
+  const verdict: Verdict = {
+    verified: p.failures.length === 0,
+    said: top,
+    schema: acdc.s,
+    lei: acdc.a?.LEI ?? null,
+    vleiHash: hash,
+    issuer: acdc.i,
+    holder: acdc.a?.i ?? null,
+    chain,
+    failures: p.failures,
+    checkedAt: new Date().toISOString(),
+  };
+  logger.info("[verify] %s %s (%d links, failures: %j)", top, verdict.verified ? "verified" : "rejected", chain.length, p.failures.map((f) => f.code));
+  return verdict;
+}
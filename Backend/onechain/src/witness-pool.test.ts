@@ -0,0 +1,14 @@
+// src/witness-pool.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+const EID = "BHNToblRIHAQowUthBzac6qzGrHz0ScG0WeIaXu3rvIT";
+
+// config.ts reads WITNESSES once, so it is set before the pool module loads
+process.env.WITNESS_POOL_FILE = "";
+process.env.WITNESSES = `${EID}=http://wan:5642,not-a-witness`;
+const { loadWitnessPool } = await import("./witness-pool.js");
+
+test("a pool with an invalid entry fails to load instead of shrinking", () => {
+  assert.throws(() => loadWitnessPool(), /WITNESSES: invalid entry "not-a-witness"/);
+});
@@ -0,0 +1,181 @@
+// src/witness-pool.ts
+import { existsSync, readFileSync, writeFileSync, renameSync } from "node:fs";
+import YAML from "yaml";
+import { logger } from "./logger.js";
+import { ApiError } from "./errors.js";
+import { WITNESS_POOL_FILE, WITNESSES, DEFAULT_WITNESSES } from "./config.js";
+
+export type Witness = {
+  eid: string;
+  url: string;
+  oobi: string;       // witness OOBI resolved by every agent
+  name?: string;
+  enabled: boolean;   // disabled witnesses stay listed but are never selected
+};
+
+// Per-AID selection: at least `min` witnesses (else WITNESS_UNAVAILABLE), `preferred` ones first, receipt threshold `toad`
+export type WitnessPolicy = { min?: number; preferred?: string[]; toad?: number };
+
+const EID = /^[A-Za-z0-9_-]{44}$/;
+
+let pool: Map<string, Witness> | null = null;
+let source = "defaults";
+
+function eidFromOobi(u: string): string | null {
+  const m = /\/oobi\/([A-Za-z0-9_\-]+)\//.exec(u);
+  return m ? m[1] : null;
+}
+
+function toWitness(raw: any): Witness | null {
+  if (typeof raw === "string") {
+    // "http://host:port/oobi/<eid>/witness" or "<eid>=http://host:port"
+    const at = raw.indexOf("=");
+    const left = raw.slice(0, at).trim();
+    raw = at > 0 && EID.test(left) ? { eid: left, url: raw.slice(at + 1).trim() } : { oobi: raw.trim() };
+  }
+  const oobi = raw?.oobi ? String(raw.oobi) : undefined;
+  const eid = String(raw?.eid ?? (oobi ? eidFromOobi(oobi) : "") ?? "");
+  const url = String(raw?.url ?? (oobi ? oobi.replace(/\/oobi\/.*$/, "") : "")).replace(/\/+$/, "");
+  if (!EID.test(eid) || !/^https?:\/\//.test(url)) return null;
+  return {
+    eid,
+    url,
+    oobi: oobi ?? `${url}/oobi/${eid}/witness`,
+    ...(raw.name ? { name: String(raw.name) } : {}),
+    enabled: raw.enabled !== false,
+  };
+}
+
+function parseList(text: string, from: string, yaml = false): unknown[] {
+  const t = text.trim();
+  if (!t) return [];
+  let doc: any;
+  if (yaml) doc = YAML.parse(t);
+  else if (t.startsWith("[") || t.startsWith("{")) doc = JSON.parse(t);
+  else return t.split(",").map((s) => s.trim()).filter(Boolean);
+  const list = Array.isArray(doc) ? doc : doc?.witnesses;
+  if (!Array.isArray(list)) throw new Error(`${from}: expected a list or { witnesses: [...] }`);
+  return list;
+}
+
+function isYaml(path: string) {
+  return /\.ya?ml$/i.test(path);
+}
+
+function load(): Map<string, Witness> {
+  let entries: unknown[] = DEFAULT_WITNESSES;
+  try {
+    if (WITNESS_POOL_FILE && existsSync(WITNESS_POOL_FILE)) {
+      entries = parseList(readFileSync(WITNESS_POOL_FILE, "utf8"), WITNESS_POOL_FILE, isYaml(WITNESS_POOL_FILE));
+      source = WITNESS_POOL_FILE;
+    } else if (WITNESSES) {
+      entries = parseList(WITNESSES, "WITNESSES");
+      source = "WITNESSES";
+    }
+  } catch (e: any) {
+    // a broken pool definition must not silently fall back to the demo witnesses
+    throw new Error(`witness pool unreadable: ${e?.message ?? String(e)}`);
+  }
+
+  const map = new Map<string, Witness>();
+  for (const raw of entries) {
+    const w = toWitness(raw);
+    if (!w) throw new Error(`witness pool ${source}: invalid entry ${JSON.stringify(raw)} (needs a 44-char eid and an http(s) url)`);
+    if (map.has(w.eid)) throw new Error(`witness pool ${source}: duplicate witness ${w.eid}`);
+    map.set(w.eid, w);
+  }
+  logger.info("[witness.pool] %d witnesses from %s", map.size, source);
+  return map;
+}
+
+/** Loads and validates the witness pool at startup (index.ts); throws on a bad pool definition. */
+export function loadWitnessPool(): Witness[] {
+  pool = load();
+  return listWitnesses();
+}
+
+function witnesses(): Map<string, Witness> {
+  if (!pool) pool = load();
+  return pool;
+}
+
+// Runtime changes go back to the pool file when there is one; otherwise they last until restart
+function persist(): boolean {
+  if (!WITNESS_POOL_FILE) return false;
+  const list = Array.from(witnesses().values());
+  const body = isYaml(WITNESS_POOL_FILE) ? YAML.stringify({ witnesses: list }) : JSON.stringify({ witnesses: list }, null, 2) + "\n";
+  try {
+    const tmp = `${WITNESS_POOL_FILE}.tmp`;
+    writeFileSync(tmp, body);
+    renameSync(tmp, WITNESS_POOL_FILE);
+    source = WITNESS_POOL_FILE;
+    return true;
+  } catch (e: any) {
+    logger.warn("[witness.pool] could not write %s: %s", WITNESS_POOL_FILE, e?.message ?? String(e));
+    return false;
+  }
+}
+
+export function listWitnesses(): Witness[] {
+  return Array.from(witnesses().values());
+}
+
+export function getWitness(eid: string): Witness | undefined {
+  return witnesses().get(eid);
+}
+
+export function poolSource() {
+  return source;
+}
+
+export function enabledWitnessEids(): string[] {
+  return listWitnesses().filter((w) => w.enabled).map((w) => w.eid);
+}
+
+export function witnessOobis(): string[] {
+  return listWitnesses().filter((w) => w.enabled).map((w) => w.oobi);
+}
+
+/** Adds (or replaces) a pool entry; throws BAD_REQUEST for a malformed one. */
+export function addWitness(raw: { eid?: string; url?: string; oobi?: string; name?: string; enabled?: boolean }) {
+  const w = toWitness(raw);
+  if (!w) throw new ApiError("BAD_REQUEST", "witness needs a 44-char eid and an http(s) url (or an OOBI carrying both)");
+  const existed = witnesses().has(w.eid);
+  witnesses().set(w.eid, w);
+  return { witness: w, existed, persisted: persist() };
+}
+
+export function removeWitness(eid: string) {
+  const w = witnesses().get(eid);
+  if (!w) return null;
+  witnesses().delete(eid);
+  return { witness: w, persisted: persist() };
+}
+
+export function setWitnessEnabled(eid: string, enabled: boolean) {
+  const w = witnesses().get(eid);
+  if (!w) return null;
+  w.enabled = enabled;
+  return { witness: w, persisted: persist() };
+}
+
+/** Candidate EIDs for a policy: enabled pool with preferred witnesses first. */
+export function policyCandidates(policy: WitnessPolicy = {}): string[] {
+  const enabled = enabledWitnessEids();
+  const unknown = (policy.preferred ?? []).filter((eid) => !enabled.includes(eid));
+  if (unknown.length) throw new ApiError("BAD_REQUEST", "preferred witnesses are not in the enabled pool", { unknown });
+  const preferred = policy.preferred ?? [];
+  return [...preferred, ...enabled.filter((eid) => !preferred.includes(eid))];
+}
+
+/**
+ * Narrows the available witnesses to what the policy asks for: available
+ * preferred witnesses, topped up from the rest of the pool only as far as
+ * `need`. Without preferred witnesses every available one is used.
+ */
+export function applyPolicy(available: string[], policy: WitnessPolicy, need: number): string[] {
+  if (!policy.preferred?.length) return available;
+  const preferred = policy.preferred.filter((eid) => available.includes(eid));
+  const rest = available.filter((eid) => !preferred.includes(eid));
+  return preferred.concat(rest.slice(0, Math.max(0, need - preferred.length)));
+}
@@ -0,0 +1,227 @@
+// src/witnesses.ts
+import { logger } from "./logger.js";
+import {
+  WITNESS_MONITOR_INTERVAL_MS,
+  WITNESS_PROBE_TIMEOUT_MS,
+  WITNESS_STABLE_ROUNDS,
+} from "./config.js";
+import {
+  onClientEvent,
+  pooledClient,
+  pooledTenants,
+  useWitnessView,
+  witnessWarmState,
+  refreshWitnessOobis,
+} from "./signify.js";
+import { currentTenant } from "./tenants.js";
+import {
+  listWitnesses,
+  getWitness,
+  poolSource,
+  addWitness,
+  removeWitness,
+  setWitnessEnabled,
+  type Witness,
+} from "./witness-pool.js";
+
+// HTTP reachability is a property of the witness; contacts/OOBIs are agent (tenant) state
+type Reach = {
+  reachable: boolean | null;  // null until the first probe
+  status?: number;
+  latencyMs?: number;
+  checkedAt?: string;
+  lastSeen?: string;          // last time the witness answered over HTTP
+  error?: string;
+};
+
+type AgentView = {
+  contact: boolean;
+  rounds: number;             // consecutive checks with the contact present
+  oobiResolvedAt?: string;
+  oobiError?: string;
+  checkedAt?: string;
+};
+
+export type WitnessHealth = Witness & {
+  available: boolean;         // enabled, contact stable for WITNESS_STABLE_ROUNDS and not unreachable
+} & Reach & AgentView;
+
+const reach = new Map<string, Reach>();
+const agents = new Map<string, Map<string, AgentView>>();
+const running = new Set<string>();
+let timer: NodeJS.Timeout | null = null;
+let lastRun: string | null = null;
+
+function isAvailable(w: Witness | undefined, r: Reach | undefined, a: AgentView | undefined) {
+  return Boolean(w?.enabled && a?.contact && a.rounds >= Math.max(1, WITNESS_STABLE_ROUNDS) && r?.reachable !== false);
+}
+
+async function probe(eid: string, oobi: string) {
+  const started = Date.now();
+  const prev = reach.get(eid);
+  try {
+    const res = await fetch(oobi, { signal: AbortSignal.timeout(WITNESS_PROBE_TIMEOUT_MS) });
+    await res.arrayBuffer().catch(() => undefined);
+    const now = new Date().toISOString();
+    reach.set(eid, {
+      reachable: res.status < 500,
+      status: res.status,
+      latencyMs: Date.now() - started,
+      checkedAt: now,
+      lastSeen: now,
+    });
+  } catch (e: any) {
+    if (prev?.reachable !== false) logger.warn("[witness] %s unreachable: %s", eid, e?.cause?.code ?? e?.message ?? String(e));
+    reach.set(eid, {
+      reachable: false,
+      checkedAt: new Date().toISOString(),
+      lastSeen: prev?.lastSeen,
+      error: e?.cause?.code ?? e?.message ?? String(e),
+    });
+  }
+}
+
+async function contactsOf(client: any): Promise<Set<string> | null> {
+  try {
+    const list = await client.contacts().list();
+    if (!Array.isArray(list)) return new Set();
+    return new Set(list.map((c: any) => c?.eid || c?.pre || c?.prefix || c?.id).filter(Boolean));
+  } catch (e: any) {
+    logger.debug("[witness] contacts list failed: %s", e?.message ?? String(e));
+    return null;
+  }
+}
+
+async function checkAgent(tenant: string, client: any) {
+  if (running.has(tenant)) return;
+  running.add(tenant);
+  try {
+    const known = await contactsOf(client);
+    if (!known) return; // agent hiccup: keep the previous view rather than reading it as an outage
+
+    const view = agents.get(tenant) ?? new Map<string, AgentView>();
+    agents.set(tenant, view);
+    for (const w of listWitnesses().filter((w) => w.enabled)) {
+      const prev = view.get(w.eid) ?? { contact: false, rounds: 0 };
+      const next: AgentView = { ...prev, contact: known.has(w.eid), checkedAt: new Date().toISOString() };
+      next.rounds = next.contact ? prev.rounds + 1 : 0;
+
+      // a missing contact means the OOBI never resolved (or was dropped): try again
+      if (!next.contact && reach.get(w.eid)?.reachable !== false) {
+        try {
+          await client.oobis().resolve(w.oobi, `wit-${w.eid.slice(0, 6)}`);
+          next.oobiResolvedAt = new Date().toISOString();
+          delete next.oobiError;
+        } catch (e: any) {
+          next.oobiError = e?.message ?? String(e);
+        }
+      } else if (next.contact && !next.oobiResolvedAt) {
+        next.oobiResolvedAt = next.checkedAt;
+      }
+      view.set(w.eid, next);
+    }
+  } finally {
+    running.delete(tenant);
+  }
+}
+
+/** One monitor round: HTTP probes, then contacts/OOBIs for every pooled tenant agent. */
+export async function checkWitnesses() {
+  await Promise.all(listWitnesses().filter((w) => w.enabled).map((w) => probe(w.eid, w.oobi)));
+  for (const tenant of pooledTenants()) {
+    const client = pooledClient(tenant);
+    if (client) await checkAgent(tenant, client);
+  }
+  lastRun = new Date().toISOString();
+}
+
+/** Current monitor view for a tenant (defaults to the request's tenant). */
+export function witnessHealth(tenant: string = currentTenant().id): WitnessHealth[] {
+  const view = agents.get(tenant);
+  return listWitnesses().map((w) => {
+    const r = reach.get(w.eid) ?? { reachable: null };
+    const a = view?.get(w.eid) ?? { contact: false, rounds: 0 };
+    return { ...w, available: isAvailable(w, r, a), ...r, ...a };
+  });
+}
+
+export function monitorStatus(tenant: string = currentTenant().id) {
+  return {
+    running: timer !== null,
+    intervalMs: WITNESS_MONITOR_INTERVAL_MS,
+    stableRounds: WITNESS_STABLE_ROUNDS,
+    lastRun,
+    pool: poolSource(),
+    ...witnessWarmState(tenant),
+  };
+}
+
+// prepareWitnessArgs asks this before falling back to the blocking contact poll
+useWitnessView((tenant, want) => {
+  const view = agents.get(tenant);
+  if (!view) return null;
+  return want.filter((eid) => isAvailable(getWitness(eid), reach.get(eid), view.get(eid)));
+});
+
+// a fresh agent gets checked right away; an evicted one loses its view
+onClientEvent("connect", (tenant, client) => {
+  void checkAgent(tenant, client).catch((e: any) => logger.warn("[witness] check %s failed: %s", tenant, e?.message ?? String(e)));
+});
+onClientEvent("evict", (tenant) => {
+  agents.delete(tenant);
+});
+
+/** Starts the background monitor (no-op when WITNESS_MONITOR_INTERVAL_MS is 0). */
+export function startWitnessMonitor() {
+  if (timer || WITNESS_MONITOR_INTERVAL_MS <= 0) return;
+  const tick = () =>
+    checkWitnesses().catch((e: any) => logger.warn("[witness] monitor round failed: %s", e?.message ?? String(e)));
+  timer = setInterval(tick, WITNESS_MONITOR_INTERVAL_MS);
+  timer.unref();
+  void tick();
+  logger.info("[witness] monitor every %dms (%d witnesses)", WITNESS_MONITOR_INTERVAL_MS, listWitnesses().length);
+}
+
+// ---- runtime pool changes ----
+
+function forget(eid: string) {
+  reach.delete(eid);
+  for (const view of agents.values()) view.delete(eid);
+}
+
+// every connected agent resolves the new OOBI now; agents connecting later get it from the pool
+async function introduce(w: Witness) {
+  await probe(w.eid, w.oobi);
+  for (const tenant of pooledTenants()) {
+    const client = pooledClient(tenant);
+    if (client) await refreshWitnessOobis(client, [w.oobi]);
+  }
+}
+
+/** Adds a witness to the pool and resolves its OOBI on every pooled agent. */
+export async function addPoolWitness(raw: Parameters<typeof addWitness>[0]) {
+  const out = addWitness(raw);
+  forget(out.witness.eid);
+  if (out.witness.enabled) await introduce(out.witness);
+  logger.info("[witness.pool] %s %s (%s)", out.existed ? "updated" : "added", out.witness.eid, out.witness.url);
+  return out;
+}
+
+export function removePoolWitness(eid: string) {
+  const out = removeWitness(eid);
+  if (out) {
+    forget(eid);
+    logger.info("[witness.pool] removed %s", eid);
+  }
+  return out;
+}
+
+/** Disabled witnesses are never selected; re-enabling resolves the OOBI again. */
+export async function enablePoolWitness(eid: string, enabled: boolean) {
+  const out = setWitnessEnabled(eid, enabled);
+  if (!out) return null;
+  if (enabled) await introduce(out.witness);
+  else forget(eid);
+  logger.info("[witness.pool] %s %s", enabled ? "enabled" : "disabled", eid);
+  return out;
+}
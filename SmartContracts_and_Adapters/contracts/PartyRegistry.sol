@@ -30,7 +30,7 @@ contract PartyRegistry is AccessControl, Pausable, IPartyRegistry, FunctionsClie
 
     struct PartyEx {
         string  lei;        // LEI code
-        bytes32 vleiHash;   // hash of vLEI credential (off-chain submitted)
+        bytes32 vleiHash;   // keccak256(abi.encodePacked(credentialSAID, lei)), checked by the adapter
         bool    isTrusted;  // true after verified
     }
 
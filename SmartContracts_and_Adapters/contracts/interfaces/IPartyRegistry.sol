@@ -5,7 +5,7 @@ interface IPartyRegistry {
     // -------- Data --------
     struct Party {
         string  lei;        // LEI code
-        bytes32 vleiHash;   // hash/fingerprint of vLEI credential (off-chain)
+        bytes32 vleiHash;   // keccak256(abi.encodePacked(credentialSAID, lei)); onechain returns it at issuance
         bool    isTrusted;  // set true after successful verification
     }
 
@@ -1,6 +1,8 @@
 import express, { type Request, type Response, type NextFunction } from "express";
 import cors from "cors";
 import axios from "axios";
+import { solidityPackedKeccak256 } from "ethers";
+import { openapi } from "./openapi.js";
 
 /* ---------- config via env ---------- */
 const PORT = Number(process.env.PORT || 18889);
@@ -64,11 +66,20 @@ function apixHeaders(): Record<string, string> {
 function safeJson(res: Response, code: number, body: unknown) {
   if (!res.headersSent) res.status(code).json(body);
 }
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+// credential SAID an APIX payload carries as `said` (or `d`, the ACDC field)
+function rawSaid(raw: unknown): string | undefined {
+  if (!isObject(raw)) return undefined;
+  return typeof raw.said === "string" ? raw.said : typeof raw.d === "string" ? raw.d : undefined;
+}
 
 /* ---------- state ---------- */
 type Rec = {
   status: "pending" | "verified" | "rejected";
   lei?: string;
+  said?: string;
   validTo?: string;
   raw?: unknown;
   ts: number;
@@ -76,11 +87,20 @@ type Rec = {
 };
 const vlei = new Map<string, Rec>(); // presentationId -> record
 
-type Waiter = { res: Response; timer: NodeJS.Timeout; started: number; mode: "submit" | "verify"; expectedLEI?: string };
+type Waiter = { res: Response; timer: NodeJS.Timeout; started: number; mode: "submit" | "verify"; expectedLEI?: string; vleiHash?: string };
 const waiters = new Map<string, Waiter[]>();
 
 const metrics = { verify_in: 0, webhook_in: 0, status_get: 0, timeouts: 0, forward_begin: 0, forward_ok: 0, forward_err: 0 };
 
+/**
+ * On-chain fingerprint of the verified credential (the bytes32 the party
+ * passed to PartyRegistry): keccak256(abi.encodePacked(said, lei)), the rule
+ * onechain uses when it issues the credential.
+ */
+function vleiHash(said: string, lei: string): string {
+  return solidityPackedKeccak256(["string", "string"], [said, lei]);
+}
+
 function flushWaiters(id: string, s: Rec) {
   const list = waiters.get(id);
   if (!list || list.length === 0) return;
@@ -92,10 +112,17 @@ function flushWaiters(id: string, s: Rec) {
         out = { ...s, status: "rejected", rejectReason: "expected_lei_mismatch", waitedMs: out.waitedMs };
       }
     }
+    if (w.mode === "verify" && out.status === "verified" && w.vleiHash) {
+      if (!s.said || !s.lei) {
+        out = { ...s, status: "rejected", rejectReason: "vlei_hash_unverifiable", waitedMs: out.waitedMs };
+      } else if (vleiHash(s.said, s.lei) !== w.vleiHash) {
+        out = { ...s, status: "rejected", rejectReason: "vlei_hash_mismatch", waitedMs: out.waitedMs };
+      }
+    }
     safeJson(w.res, 200, { ok: true, presentationId: id, ...out });
   }
 }
-function addWaiter(id: string, res: Response, mode: "submit" | "verify", expectedLEI?: string) {
+function addWaiter(id: string, res: Response, mode: "submit" | "verify", expectedLEI?: string, hash?: string) {
   const list = waiters.get(id) || [];
   const started = Date.now();
   const timer = setTimeout(() => {
@@ -107,7 +134,7 @@ function addWaiter(id: string, res: Response, mode: "submit" | "verify", expecte
     const rest = (waiters.get(id) || []).filter(w => w.res !== res);
     if (rest.length) waiters.set(id, rest); else waiters.delete(id);
   }, SUBMIT_TIMEOUT_MS);
-  list.push({ res, timer, started, mode, expectedLEI });
+  list.push({ res, timer, started, mode, expectedLEI, vleiHash: hash });
   waiters.set(id, list);
   log("debug", "addWaiter", { id, totalWaiters: list.length, timeoutMs: SUBMIT_TIMEOUT_MS, mode, expectedLEI: expectedLEI ? "set" : "unset" });
 
@@ -123,7 +150,60 @@ if (SUMMARY_INTERVAL_SEC > 0) {
   }, SUMMARY_INTERVAL_SEC * 1000);
 }
 
+/* ---------- OpenAPI (from the doc() entries next to each route) ---------- */
+const { doc, serve: serveOpenApi } = openapi({ title: "vLEI adapter (APIX)", server: PUBLIC_BASE_URL });
+
+const RecSchema = {
+  type: "object",
+  required: ["status", "ts"],
+  properties: {
+    status: { type: "string", enum: ["pending", "verified", "rejected"] },
+    lei: { type: "string" },
+    said: { type: "string", description: "verified credential" },
+    validTo: { type: "string" },
+    raw: {},
+    ts: { type: "integer", description: "epoch ms" },
+    rejectReason: { type: "string" },
+  },
+};
+const VerifyResultSchema = {
+  allOf: [RecSchema],
+  type: "object",
+  properties: {
+    ok: { type: "boolean" },
+    presentationId: { type: "string" },
+    waitedMs: { type: "integer" },
+    timeout: { type: "boolean", description: "set when SUBMIT_TIMEOUT_MS elapsed while still pending" },
+  },
+};
+const VerifyBodySchema = {
+  type: "object",
+  required: ["presentationId"],
+  properties: {
+    presentationId: { type: "string" },
+    expectedLEI: { type: "string", description: "verified LEI must match, else rejectReason=expected_lei_mismatch" },
+    vleiHash: {
+      type: "string",
+      description: "must equal keccak256(abi.encodePacked(said, lei)) of the verified credential, else rejectReason=vlei_hash_mismatch (or vlei_hash_unverifiable without a SAID); defaults to presentation.vleiHash",
+    },
+    presentation: { description: "vLEI presentation; when present it is forwarded to APIX" },
+  },
+};
+const WebhookBodySchema = {
+  type: "object",
+  required: ["presentationId"],
+  properties: {
+    presentationId: { type: "string" },
+    valid: { type: "boolean" },
+    lei: { type: "string" },
+    said: { type: "string", description: "verified credential SAID (else raw.said / raw.d)" },
+    validTo: { type: "string" },
+    raw: {},
+  },
+};
+
 /* ---------- routes ---------- */
+doc("get", "/healthz", { summary: "Liveness" });
 app.get("/healthz", (_req: Request, res: Response) => res.json({ ok: true }));
 
 /**
@@ -131,19 +211,27 @@ app.get("/healthz", (_req: Request, res: Response) => res.json({ ok: true }));
  * Chainlink one-call:
  *  - If {presentation} provided → forward to APIX (/gleif/vlei/presentations) and wait for webhook
  *  - If not provided → do NOT forward → just wait for webhook (wallet submitted externally)
- * body: { presentationId: string, expectedLEI?: string, presentation?: any }
+ *  - vleiHash (body or presentation.vleiHash) must be the fingerprint of the verified credential
+ * body: { presentationId: string, expectedLEI?: string, vleiHash?: string, presentation?: any }
  */
+doc("post", "/vlei/verify", {
+  summary: "Verify a presentation (forwarded to APIX when given) and wait for the webhook outcome",
+  body: VerifyBodySchema,
+  response: VerifyResultSchema,
+  responses: { 400: "presentationId missing", 502: "APIX submit failed" },
+});
 app.post("/vlei/verify", async (req: Request, res: Response) => {
   const { presentation, presentationId, expectedLEI } = req.body as { presentation?: unknown; presentationId?: string; expectedLEI?: string };
   if (!presentationId) return res.status(400).json({ error: "presentationId required" });
   const id = String(presentationId).trim();
+  const hash = String(req.body?.vleiHash || (presentation as { vleiHash?: unknown } | undefined)?.vleiHash || "").toLowerCase() || undefined;
   metrics.verify_in++;
 
   log("info", "verify:in", { id, hasPresentation: !!presentation, expLEI: expectedLEI ? "set" : "unset", body: bodyPreview(req.body) });
 
   try {
     vlei.set(id, { status: "pending", ts: Date.now(), raw: presentation ? { note: "verify+submit" } : { note: "verify-wait" } });
-    addWaiter(id, res, "verify", expectedLEI);
+    addWaiter(id, res, "verify", expectedLEI, hash);
 
     if (presentation && APIX_BASE) {
       const callbackUrl = `${PUBLIC_BASE_URL}/vlei/apix/webhook`;
@@ -177,16 +265,22 @@ app.post("/vlei/verify", async (req: Request, res: Response) => {
 });
 
 /** Webhook from APIX vLEI system. */
+doc("post", "/vlei/apix/webhook", {
+  summary: "APIX verification outcome; releases waiting /vlei/verify calls",
+  body: WebhookBodySchema,
+  responses: { 400: "presentationId missing" },
+});
 app.post("/vlei/apix/webhook", (req: Request, res: Response) => {
-  const { presentationId, valid, lei, validTo, raw } = req.body as {
-    presentationId?: string; valid?: boolean; lei?: string; validTo?: string; raw?: unknown;
+  const { presentationId, valid, lei, said, validTo, raw } = req.body as {
+    presentationId?: string; valid?: boolean; lei?: string; said?: string; validTo?: string; raw?: unknown;
   };
   if (!presentationId) return res.status(400).json({ error: "presentationId required" });
   const id = String(presentationId).trim();
   metrics.webhook_in++;
 
   const prev = vlei.get(id);
-  const record: Rec = { status: valid ? "verified" : "rejected", lei, validTo, raw, ts: Date.now() };
+  const credential = said ?? rawSaid(raw);
+  const record: Rec = { status: valid ? "verified" : "rejected", lei, ...(credential ? { said: credential } : {}), validTo, raw, ts: Date.now() };
   vlei.set(id, record);
 
   log("info", "webhook:in", {
@@ -200,6 +294,11 @@ app.post("/vlei/apix/webhook", (req: Request, res: Response) => {
 });
 
 /** Status viewer (debug) */
+doc("get", "/vlei/apix/status/:id", {
+  summary: "Last known verification record",
+  response: RecSchema,
+  responses: { 404: "unknown presentationId" },
+});
 app.get("/vlei/apix/status/:id", (req: Request, res: Response) => {
   const id = String(req.params.id).trim();
   metrics.status_get++;
@@ -209,6 +308,9 @@ app.get("/vlei/apix/status/:id", (req: Request, res: Response) => {
   res.json(s);
 });
 
+/* ---------- OpenAPI document, docs UI and CI check ---------- */
+serveOpenApi(app);
+
 /* ---------- start ---------- */
 app.listen(PORT, () => {
   log("info", "server:start", {
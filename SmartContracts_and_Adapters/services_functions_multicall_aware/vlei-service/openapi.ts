@@ -0,0 +1,110 @@
+import type { Express, Request, Response } from "express";
+
+/* ---------- OpenAPI (from the doc() entries next to each route) ---------- */
+export type OpenApiOp = {
+  summary: string;
+  body?: object;                      // JSON request body schema
+  response?: object;                  // 200 response schema
+  responses?: Record<string, string>; // other status codes -> description (>= 400 use the Error schema)
+};
+
+type RouteLayer = { route?: { path: string; methods: Record<string, boolean> } };
+
+const OPENAPI_SELF = ["/openapi.json", "/docs"];
+
+// Express 4 keeps its route table on the undocumented app._router; this is the only place that reads it
+function routeLayers(app: Express): RouteLayer[] {
+  return (app as Express & { _router?: { stack: RouteLayer[] } })._router?.stack ?? [];
+}
+
+/**
+ * OpenAPI document of one adapter: doc() records a route next to where it is
+ * mounted, serve() adds /openapi.json, /docs and the CLI flags (--openapi
+ * prints the document, --openapi-check exits 1 when routes and docs drift apart).
+ */
+export function openapi(info: { title: string; server?: string }) {
+  const paths: Record<string, Record<string, object>> = {};
+
+  function doc(method: "get" | "post", path: string, op: OpenApiOp) {
+    const key = path.replace(/:(\w+)/g, "{$1}");
+    const parameters = [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({ name, in: "path", required: true, schema: { type: "string" } }));
+    const json = (schema: object) => ({ "application/json": { schema } });
+    paths[key] = {
+      ...paths[key],
+      [method]: {
+        summary: op.summary,
+        operationId: method + key.split(/[^A-Za-z0-9]+/).filter(Boolean).map(s => s[0].toUpperCase() + s.slice(1)).join(""),
+        ...(parameters.length ? { parameters } : {}),
+        ...(op.body ? { requestBody: { required: true, content: json(op.body) } } : {}),
+        responses: {
+          200: { description: "OK", content: json(op.response ?? { type: "object" }) },
+          ...Object.fromEntries(Object.entries(op.responses ?? {}).map(([code, description]) =>
+            [code, Number(code) >= 400 ? { description, content: json({ $ref: "#/components/schemas/Error" }) } : { description }])),
+        },
+      },
+    };
+  }
+
+  function document() {
+    return {
+      openapi: "3.0.3",
+      info: { title: info.title, version: "1.0.0" },
+      ...(info.server ? { servers: [{ url: info.server }] } : {}),
+      paths,
+      components: {
+        schemas: {
+          Error: { type: "object", required: ["error"], properties: { error: { type: "string" }, detail: {} } },
+        },
+      },
+    };
+  }
+
+  /** Mounted routes vs. documented ones ("undocumented: GET /x", "not mounted: POST /y"). */
+  function drift(app: Express): string[] {
+    const mounted = new Set<string>();
+    for (const { route: r } of routeLayers(app)) {
+      if (!r || OPENAPI_SELF.includes(r.path)) continue;
+      for (const m of Object.keys(r.methods)) mounted.add(`${m.toUpperCase()} ${String(r.path).replace(/:(\w+)/g, "{$1}")}`);
+    }
+    const documented = new Set(
+      Object.entries(paths).flatMap(([p, ops]) => Object.keys(ops).map(m => `${m.toUpperCase()} ${p}`))
+    );
+    return [
+      ...[...mounted].filter(k => !documented.has(k)).map(k => `undocumented: ${k}`),
+      ...[...documented].filter(k => !mounted.has(k)).map(k => `not mounted: ${k}`),
+    ];
+  }
+
+  function docsHtml(specUrl: string) {
+    return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${info.title}</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: "#ui" });</script>
+</body>
+</html>`;
+  }
+
+  function serve(app: Express) {
+    app.get("/openapi.json", (_req: Request, res: Response) => res.json(document()));
+    app.get("/docs", (_req: Request, res: Response) => res.type("html").send(docsHtml("/openapi.json")));
+
+    if (process.argv.includes("--openapi")) {
+      console.log(JSON.stringify(document(), null, 2));
+      process.exit(0);
+    }
+    if (process.argv.includes("--openapi-check")) {
+      const problems = drift(app);
+      for (const d of problems) console.error(d);
+      process.exit(problems.length ? 1 : 0);
+    }
+  }
+
+  return { doc, document, drift, serve };
+}
@@ -1,6 +1,8 @@
 import express, { type Request, type Response, type NextFunction } from "express";
 import cors from "cors";
 import crypto from "crypto";
+import { solidityPackedKeccak256 } from "ethers";
+import { openapi } from "./openapi.js";
 
 /* ---------- env ---------- */
 const PORT = Number(process.env.PORT || 18890);
@@ -49,13 +51,14 @@ app.use(cors({ origin: true }));
 type Rec = {
   status: "pending" | "verified" | "rejected";
   lei?: string;
+  said?: string;
   validTo?: string;
   raw?: unknown;
   ts: number;
   rejectReason?: string;
 };
 const vlei = new Map<string, Rec>();
-type Waiter = { res: Response; timer: NodeJS.Timeout; started: number; mode: "submit" | "verify"; expectedLEI?: string };
+type Waiter = { res: Response; timer: NodeJS.Timeout; started: number; mode: "submit" | "verify"; expectedLEI?: string; vleiHash?: string };
 const waiters = new Map<string, Waiter[]>();
 const metrics = { verify_in: 0, webhook_in: 0, status_get: 0, timeouts: 0, auto_verified: 0 };
 
@@ -80,6 +83,11 @@ function hashReq(req: Request): string {
 // For /vlei/verify: dedupe by presentationId only
 const verifySeen = new Map<string, number>(); // id -> exp timestamp
 
+/* ---------- vleiHash: keccak256(abi.encodePacked(said, lei)), as onechain computes it ---------- */
+function vleiHash(said: string, lei: string): string {
+  return solidityPackedKeccak256(["string", "string"], [said, lei]);
+}
+
 /* ---------- waiter helpers ---------- */
 function flushWaiters(id: string, s: Rec) {
   const list = waiters.get(id);
@@ -92,10 +100,16 @@ function flushWaiters(id: string, s: Rec) {
         out = { ...s, status: "rejected", rejectReason: "expected_lei_mismatch", waitedMs: out.waitedMs };
       }
     }
+    // the mock only checks the hash when it knows the credential SAID
+    if (w.mode === "verify" && out.status === "verified" && w.vleiHash && s.said && s.lei) {
+      if (vleiHash(s.said, s.lei) !== w.vleiHash) {
+        out = { ...s, status: "rejected", rejectReason: "vlei_hash_mismatch", waitedMs: out.waitedMs };
+      }
+    }
     if (!w.res.headersSent) w.res.status(200).json({ ok: true, presentationId: id, ...out });
   }
 }
-function addWaiter(id: string, res: Response, mode: "submit" | "verify", expectedLEI?: string) {
+function addWaiter(id: string, res: Response, mode: "submit" | "verify", expectedLEI?: string, hash?: string) {
   const list = waiters.get(id) || [];
   const started = Date.now();
   const timer = setTimeout(() => {
@@ -107,7 +121,7 @@ function addWaiter(id: string, res: Response, mode: "submit" | "verify", expecte
     const rest = (waiters.get(id) || []).filter(w => w.res !== res);
     if (rest.length) waiters.set(id, rest); else waiters.delete(id);
   }, SUBMIT_TIMEOUT_MS);
-  list.push({ res, timer, started, mode, expectedLEI });
+  list.push({ res, timer, started, mode, expectedLEI, vleiHash: hash });
   waiters.set(id, list);
   log("debug", "addWaiter", { id, totalWaiters: list.length, timeoutMs: SUBMIT_TIMEOUT_MS, mode, expectedLEI: expectedLEI ? "set" : "unset" });
 
@@ -123,17 +137,74 @@ if (SUMMARY_INTERVAL_SEC > 0) {
   }, SUMMARY_INTERVAL_SEC * 1000);
 }
 
+/* ---------- OpenAPI (from the doc() entries next to each route) ---------- */
+const { doc, serve: serveOpenApi } = openapi({ title: "vLEI adapter (mock, multicall-aware)" });
+
+const RecSchema = {
+  type: "object",
+  required: ["status", "ts"],
+  properties: {
+    status: { type: "string", enum: ["pending", "verified", "rejected"] },
+    lei: { type: "string" },
+    said: { type: "string", description: "verified credential" },
+    validTo: { type: "string" },
+    raw: {},
+    ts: { type: "integer", description: "epoch ms" },
+    rejectReason: { type: "string" },
+  },
+};
+const VerifyResultSchema = {
+  allOf: [RecSchema],
+  type: "object",
+  properties: {
+    ok: { type: "boolean" },
+    presentationId: { type: "string" },
+    waitedMs: { type: "integer" },
+    timeout: { type: "boolean", description: "set when SUBMIT_TIMEOUT_MS elapsed while still pending" },
+  },
+};
+const VerifyBodySchema = {
+  type: "object",
+  required: ["presentationId"],
+  properties: {
+    presentationId: { type: "string" },
+    expectedLEI: { type: "string", description: "verified LEI must match, else rejectReason=expected_lei_mismatch" },
+    vleiHash: { type: "string", description: "must equal keccak256(abi.encodePacked(said, lei)) when the SAID is known, else rejectReason=vlei_hash_mismatch" },
+    presentation: { description: "when present the mock verifies immediately (said, lei and vleiHash are taken from it)" },
+  },
+};
+const WebhookBodySchema = {
+  type: "object",
+  required: ["presentationId"],
+  properties: {
+    presentationId: { type: "string" },
+    valid: { type: "boolean" },
+    lei: { type: "string" },
+    said: { type: "string", description: "credential SAID, for the vleiHash check" },
+    validTo: { type: "string" },
+    raw: {},
+  },
+};
+
 /* ---------- routes ---------- */
+doc("get", "/healthz", { summary: "Liveness" });
 app.get("/healthz", (_req: Request, res: Response) => res.json({ ok: true }));
 
 /**
  * POST /vlei/verify (mock)
- * body: { presentationId: string, expectedLEI?: string, presentation?: any }
+ * body: { presentationId: string, expectedLEI?: string, vleiHash?: string, presentation?: any }
  * Dedupe 5s by presentationId: duplicates attach as waiters, no reprocessing.
  */
+doc("post", "/vlei/verify", {
+  summary: "Mock verify (5s dedupe by presentationId)",
+  body: VerifyBodySchema,
+  response: VerifyResultSchema,
+  responses: { 400: "presentationId missing" },
+});
 app.post("/vlei/verify", async (req: Request, res: Response) => {
   const { presentation, presentationId, expectedLEI } = req.body as { presentation?: any; presentationId?: string; expectedLEI?: string };
   if (!presentationId) return res.status(400).json({ error: "presentationId required" });
+  const hash = String(req.body?.vleiHash || presentation?.vleiHash || "").toLowerCase() || undefined;
   const id = String(presentationId).trim();
   metrics.verify_in++;
 
@@ -144,7 +215,7 @@ app.post("/vlei/verify", async (req: Request, res: Response) => {
   const seenExp = verifySeen.get(id) || 0;
   if (seenExp > now) {
     log("debug", "verify:dedup_attach", { id });
-    addWaiter(id, res, "verify", expectedLEI);
+    addWaiter(id, res, "verify", expectedLEI, hash);
     const curr = vlei.get(id);
     if (curr && curr.status !== "pending") flushWaiters(id, curr);
     return;
@@ -154,12 +225,13 @@ app.post("/vlei/verify", async (req: Request, res: Response) => {
   // ------------------------------------
 
   vlei.set(id, { status: "pending", ts: Date.now(), raw: presentation ? { note: "mock:verify+submit" } : { note: "mock:verify-wait" } });
-  addWaiter(id, res, "verify", expectedLEI);
+  addWaiter(id, res, "verify", expectedLEI, hash);
 
   if (presentation) {
     // simulate a quick verification outcome
     const lei = expectedLEI || presentation?.lei || "MOCKLEI000000000000";
-    const rec: Rec = { status: "verified", lei, ts: Date.now(), raw: presentation };
+    const said = typeof presentation?.said === "string" ? presentation.said : undefined;
+    const rec: Rec = { status: "verified", lei, ...(said ? { said } : {}), ts: Date.now(), raw: presentation };
     vlei.set(id, rec);
     metrics.auto_verified++;
     log("debug", "mock:autoVerified", { id, lei });
@@ -170,6 +242,11 @@ app.post("/vlei/verify", async (req: Request, res: Response) => {
 /**
  * POST /vlei/apix/webhook — idempotent for 5s with DEBUG logs
  */
+doc("post", "/vlei/apix/webhook", {
+  summary: "Complete a pending verification (idempotent for 5s)",
+  body: WebhookBodySchema,
+  responses: { 202: "same request still in flight; retry", 400: "presentationId missing", 500: "processing failed" },
+});
 app.post("/vlei/apix/webhook", async (req: Request, res: Response) => {
   const key = hashReq(req);
   const now = Date.now();
@@ -205,15 +282,15 @@ app.post("/vlei/apix/webhook", async (req: Request, res: Response) => {
   __postLocks.set(key, now + IDEM_TTL_MS);
 
   try {
-    const { presentationId, valid, lei, validTo, raw } = req.body as {
-      presentationId?: string; valid?: boolean; lei?: string; validTo?: string; raw?: unknown;
+    const { presentationId, valid, lei, said, validTo, raw } = req.body as {
+      presentationId?: string; valid?: boolean; lei?: string; said?: string; validTo?: string; raw?: unknown;
     };
     if (!presentationId) return res.status(400).json({ error: "presentationId required" });
     const id = String(presentationId).trim();
     metrics.webhook_in++;
 
     const prev = vlei.get(id);
-    const record: Rec = { status: valid ? "verified" : "rejected", lei, validTo, raw, ts: Date.now() };
+    const record: Rec = { status: valid ? "verified" : "rejected", lei, said, validTo, raw, ts: Date.now() };
     vlei.set(id, record);
 
     log("info", "webhook:mock_in", {
@@ -237,6 +314,11 @@ app.post("/vlei/apix/webhook", async (req: Request, res: Response) => {
 });
 
 /** Status viewer (debug) */
+doc("get", "/vlei/apix/status/:id", {
+  summary: "Last known verification record",
+  response: RecSchema,
+  responses: { 404: "unknown presentationId" },
+});
 app.get("/vlei/apix/status/:id", (req: Request, res: Response) => {
   const id = String(req.params.id).trim();
   metrics.status_get++;
@@ -246,6 +328,9 @@ app.get("/vlei/apix/status/:id", (req: Request, res: Response) => {
   res.json(s);
 });
 
+/* ---------- OpenAPI document, docs UI and CI check ---------- */
+serveOpenApi(app);
+
 /* ---------- start ---------- */
 app.listen(PORT, () => {
   log("info", "server:start", {
@@ -1,6 +1,8 @@
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import axios from "axios";
+import { solidityPackedKeccak256 } from "ethers";
+import { openapi } from "./openapi.js";
 
 /* ---------- config ---------- */
 const PORT = Number(process.env.PORT || 18889);
@@ -25,6 +27,14 @@ function onechainHeaders(): Record<string,string> {
   }
   return h;
 }
+/**
+ * On-chain fingerprint of a vLEI credential, same rule as onechain:
+ * keccak256(abi.encodePacked(said, lei)) over the UTF-8 SAID and LEI.
+ */
+function vleiHash(said: string, lei: string): string {
+  return solidityPackedKeccak256(["string", "string"], [said, lei]);
+}
+
 const ok   = (res: Response, body: unknown) => res.status(200).json(body);
 const err  = (res: Response, code: number, error: string, detail?: unknown) =>
   res.status(code).json({ error, ...(detail ? { detail } : {}) });
@@ -32,7 +42,11 @@ const err  = (res: Response, code: number, error: string, detail?: unknown) =>
 /* ---------- in-memory results for /status/:id ---------- */
 type Rec = {
   status: "verified" | "rejected" | "pending";
-  name: string;
+  name?: string;
+  party?: string;
+  said?: string;
+  lei?: string;
+  vleiHash?: string;
   aidPrefix?: string;
   raw?: unknown;
   ts: number;
@@ -51,45 +65,129 @@ app.use((_req: Request, res: Response, next: NextFunction) => {
 });
 app.use(cors({ origin: true }));
 
+/* ---------- OpenAPI (from the doc() entries next to each route) ---------- */
+const { doc, serve: serveOpenApi } = openapi({ title: "vLEI adapter (onechain)" });
+
+const AidRecSchema = {
+  type: "object",
+  required: ["status", "ts"],
+  properties: {
+    status: { type: "string", enum: ["pending", "verified", "rejected"] },
+    name: { type: "string" },
+    party: { type: "string", description: "Ethereum address from the on-chain presentation" },
+    said: { type: "string", description: "verified credential" },
+    lei: { type: "string" },
+    vleiHash: { type: "string", description: "keccak256(abi.encodePacked(said, lei)) of the verified credential" },
+    aidPrefix: { type: "string", description: "credential holder" },
+    raw: { description: "onechain POST /verify/presentation verdict" },
+    ts: { type: "integer", description: "epoch ms" },
+    rejectReason: { type: "string" },
+  },
+};
+const AidResultSchema = {
+  allOf: [AidRecSchema],
+  type: "object",
+  properties: { ok: { type: "boolean" }, presentationId: { type: "string" } },
+};
+
 /* health */
+doc("get", "/healthz", { summary: "Liveness and upstream onechain URL" });
 app.get("/healthz", (_req, res) => ok(res, { ok: true, upstream: ONECHAIN_BASE }));
 
 /**
  * POST /vlei/verify
- * Body: { name: string, presentationId?: string }
+ * Body: { name?: string, said?: string, presentation?: string | { party, lei, vleiHash, challenge },
+ *         vleiHash?: string, expectedLEI?: string, expectedSchema?: string, presentationId?: string }
  * Behavior:
- *   - Calls onechain GET /aids/:name
- *   - If found => status=verified, include prefix + raw
- *   - If 404 => status=rejected
+ *   - Calls onechain POST /verify/presentation (CESR presentation, credential SAID,
+ *     the newest credential held by AID `name`, or - for PartyRegistry's compact
+ *     JSON presentation - by the AID bound to `party` via GET /bindings/:address)
+ *   - vleiHash (body or compact presentation) is recomputed from the verified
+ *     credential's SAID + LEI; a different hash rejects with vlei_hash_mismatch
+ *   - verdict.verified => status=verified, include holder prefix, LEI + verdict
+ *   - failures, no credential or no binding (404) => status=rejected with the failure codes
  *   - Stores result under presentationId (auto-generated if missing) so /status works
  */
+doc("post", "/vlei/verify", {
+  summary: "Verify a vLEI presentation (ACDC chain, TEL status, schema, LEI) through onechain",
+  body: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "holder AID name; its newest credential is verified" },
+      said: { type: "string", description: "credential SAID known to onechain" },
+      presentation: {
+        oneOf: [
+          { type: "string", description: "CESR credential stream" },
+          {
+            type: "object",
+            description: "PartyRegistry compact presentation",
+            properties: { party: { type: "string" }, lei: { type: "string" }, vleiHash: { type: "string" }, challenge: { type: "string" } },
+          },
+        ],
+      },
+      vleiHash: { type: "string", description: "bytes32 registered on chain; checked against the credential" },
+      expectedLEI: { type: "string" },
+      expectedSchema: { type: "string", description: "schema SAID; onechain checks against the LE vLEI schema when omitted, for every input" },
+      presentationId: { type: "string", description: "defaults to vlei-<name|said|party>-<ts>" },
+    },
+  },
+  response: AidResultSchema,
+  responses: { 400: "name, said, party or presentation missing", 502: "onechain call failed" },
+});
 app.post("/vlei/verify", async (req: Request, res: Response) => {
-  const name = String(req.body?.name || "").trim();
-  if (!name) return err(res, 400, "name required");
+  const name = String(req.body?.name || "").trim() || undefined;
+  const said = String(req.body?.said || "").trim() || undefined;
+  const presentation = typeof req.body?.presentation === "string" && req.body.presentation.trim() ? req.body.presentation : undefined;
+  // PartyRegistry sends { party, lei, vleiHash, challenge } instead of a CESR stream
+  const compact = req.body?.presentation && typeof req.body.presentation === "object" ? req.body.presentation : undefined;
+  const party = String(compact?.party || "").trim() || undefined;
+  const presentedHash = String(req.body?.vleiHash || compact?.vleiHash || "").trim().toLowerCase() || undefined;
+  const expectedLEI = String(req.body?.expectedLEI || compact?.lei || "").trim() || undefined;
+  if (!name && !said && !presentation && !party) return err(res, 400, "name, said, party or presentation required");
 
   // keep presentationId for compatibility with your CL adapter
   const presentationId =
-    String(req.body?.presentationId || `aid-${name}-${Date.now()}`);
+    String(req.body?.presentationId || `vlei-${name ?? said ?? party ?? "presentation"}-${Date.now()}`);
 
   try {
-    log("verify.begin", { name, presentationId });
-    const r = await axios.get(`${ONECHAIN_BASE}/aids/${encodeURIComponent(name)}`, {
-      headers: onechainHeaders(), timeout: 15000
-    });
+    log("verify.begin", { name, said, party, presentationId });
+    let holder = presentation || said ? undefined : name;
+    if (!presentation && !said && !name && party) {
+      const b = await axios.get(`${ONECHAIN_BASE}/bindings/${party}`, { headers: onechainHeaders(), timeout: 15000 });
+      holder = b.data?.binding?.prefix;
+    }
 
-    const raw = r.data;
-    const prefix = raw?.prefix ?? raw?.pre ?? raw?.state?.i ?? null;
+    // undefined fields are dropped from the JSON body
+    const r = await axios.post(`${ONECHAIN_BASE}/verify/presentation`, {
+      presentation,
+      said,
+      holder,
+      expectedLEI,
+      expectedSchema: req.body?.expectedSchema ? String(req.body.expectedSchema) : undefined,
+      expectedVleiHash: presentedHash,
+    }, { headers: onechainHeaders(), timeout: 30000 });
 
+    const raw = r.data;
+    const codes: string[] = (raw?.failures ?? []).map((f: any) => String(f?.code ?? "unknown").toLowerCase());
+    // recompute rather than trust the verdict's hash: this is what binds the on-chain fingerprint
+    const hash = typeof raw?.said === "string" && typeof raw?.lei === "string" ? vleiHash(raw.said, raw.lei) : undefined;
+    if (presentedHash && presentedHash !== hash && !codes.includes("vlei_hash_mismatch")) codes.push("vlei_hash_mismatch");
+    const verified = Boolean(raw?.verified) && !codes.length;
     const record: Rec = {
-      status: "verified",
-      name,
-      aidPrefix: prefix ?? undefined,
+      status: verified ? "verified" : "rejected",
+      ...(name ? { name } : {}),
+      ...(party ? { party } : {}),
+      said: raw?.said ?? said,
+      lei: raw?.lei ?? undefined,
+      ...(hash ? { vleiHash: hash } : {}),
+      aidPrefix: raw?.holder ?? undefined,
       raw,
       ts: Date.now(),
+      ...(verified ? {} : { rejectReason: codes.join(",") || "not_verified" }),
     };
     store.set(presentationId, record);
 
-    log("verify.ok", { name, presentationId, prefix });
+    log(verified ? "verify.ok" : "verify.rejected", { name, party, said: record.said, presentationId, failures: codes });
     return ok(res, {
       ok: true,
       presentationId,
@@ -101,17 +199,19 @@ app.post("/vlei/verify", async (req: Request, res: Response) => {
     if (status === 404) {
       const record: Rec = {
         status: "rejected",
-        name,
+        ...(name ? { name } : {}),
+        ...(party ? { party } : {}),
+        ...(said ? { said } : {}),
         ts: Date.now(),
-        rejectReason: "aid_not_found",
+        rejectReason: String(e?.response?.data?.code ?? "credential_not_found").toLowerCase(),
       };
       store.set(presentationId, record);
-      log("verify.not_found", { name, presentationId });
+      log("verify.not_found", { name, said, party, presentationId });
       return ok(res, { ok: true, presentationId, ...record });
     }
 
     const detail = e?.response?.data || e?.message || String(e);
-    log("verify.error", { name, presentationId, status, detail });
+    log("verify.error", { name, said, party, presentationId, status, detail });
     return err(res, 502, "upstream_error", detail);
   }
 });
@@ -120,6 +220,11 @@ app.post("/vlei/verify", async (req: Request, res: Response) => {
  * GET /vlei/apix/status/:id
  * Returns the last verify result by presentationId (for compatibility).
  */
+doc("get", "/vlei/apix/status/:id", {
+  summary: "Last verify result by presentationId",
+  response: AidResultSchema,
+  responses: { 404: "unknown presentationId" },
+});
 app.get("/vlei/apix/status/:id", (req: Request, res: Response) => {
   const id = String(req.params.id || "").trim();
   const rec = store.get(id);
@@ -131,10 +236,17 @@ app.get("/vlei/apix/status/:id", (req: Request, res: Response) => {
  * POST /vlei/apix/webhook
  * Present but disabled (no webhook flow in this adapter).
  */
+doc("post", "/vlei/apix/webhook", {
+  summary: "Disabled (no webhook flow in this adapter)",
+  responses: { 410: "always" },
+});
 app.post("/vlei/apix/webhook", (_req, res) => {
   return res.status(410).json({ error: "webhook_disabled_in_adapter" });
 });
 
+/* ---------- OpenAPI document, docs UI and CI check ---------- */
+serveOpenApi(app);
+
 /* ---------- start ---------- */
 app.listen(PORT, () => {
   log("adapter.start", { port: PORT, ONECHAIN_BASE, endpoints: [